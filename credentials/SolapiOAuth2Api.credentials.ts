@@ -15,7 +15,7 @@ export class SolapiOAuth2Api implements ICredentialType {
             name: 'scope',
             type: 'string',
             default:
-                'message:write message:read senderid:read storage:write storage:read webhook:read webhook:write kakao:write kakao:read users:read contacts:read contacts:write commerce:read commerce:write',
+                'message:write message:read senderid:read senderid:write storage:write storage:read webhook:read webhook:write kakao:write kakao:read users:read contacts:read contacts:write commerce:read commerce:write',
         },
         {
             displayName: 'Authorization URL',
@@ -0,0 +1,89 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+export const accountOperations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['account'],
+			},
+		},
+		default: 'getBalance',
+		options: [
+			{
+				name: 'Get Balance',
+				value: 'getBalance',
+				description: 'Get the current cash balance and points',
+				action: 'Get the balance',
+			},
+			{
+				name: 'Get Unit Prices',
+				value: 'getPricing',
+				description: 'Get the price per message type',
+				action: 'Get unit prices',
+			},
+			{
+				name: 'Get Usage Statistics',
+				value: 'getStatistics',
+				description: 'Get sent message counts and spending per day or month',
+				action: 'Get usage statistics',
+			},
+		],
+	},
+];
+
+export const accountFields: INodeProperties[] = [
+	{
+		displayName: 'Period',
+		name: 'statisticsPeriod',
+		type: 'options',
+		displayOptions: {
+			show: { resource: ['account'], operation: ['getStatistics'] },
+		},
+		options: [
+			{
+				name: 'Daily',
+				value: 'day',
+				description: 'One item per day',
+			},
+			{
+				name: 'Monthly',
+				value: 'month',
+				description: 'One item per month',
+			},
+			{
+				name: 'Total',
+				value: 'total',
+				description: 'The full statistics response as a single item',
+			},
+		],
+		default: 'day',
+	},
+	{
+		displayName: 'Filters',
+		name: 'filters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		displayOptions: {
+			show: { resource: ['account'], operation: ['getStatistics'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'End Date',
+				name: 'endDate',
+				type: 'dateTime',
+				default: '',
+			},
+			{
+				displayName: 'Start Date',
+				name: 'startDate',
+				type: 'dateTime',
+				default: '',
+			},
+		],
+	},
+];
@@ -0,0 +1,237 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+const eventIdField: INodeProperties = {
+	displayName: 'Event ID',
+	name: 'eventId',
+	type: 'string',
+	placeholder: 'ORDER-COMPLETED',
+	description: 'Commerce event that fires the hook, as shown in the Solapi console',
+	default: '',
+};
+
+const memoField: INodeProperties = {
+	displayName: 'Memo',
+	name: 'memo',
+	type: 'string',
+	default: '',
+};
+
+const storeIdField: INodeProperties = {
+	displayName: 'Store ID',
+	name: 'storeId',
+	type: 'string',
+	description: 'ID of the connected storefront the hook listens to',
+	default: '',
+};
+
+export const commerceHookOperations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['commerceHook'],
+			},
+		},
+		default: 'getAll',
+		options: [
+			{
+				name: 'Add Action',
+				value: 'addAction',
+				description: 'Add an action that runs when the hook fires',
+				action: 'Add an action to a commerce hook',
+			},
+			{
+				name: 'Create',
+				value: 'create',
+				description: 'Create a commerce hook',
+				action: 'Create a commerce hook',
+			},
+			{
+				name: 'Delete',
+				value: 'delete',
+				description: 'Delete a commerce hook',
+				action: 'Delete a commerce hook',
+			},
+			{
+				name: 'Delete Action',
+				value: 'deleteAction',
+				description: 'Delete an action of a commerce hook',
+				action: 'Delete an action of a commerce hook',
+			},
+			{
+				name: 'Disable',
+				value: 'disable',
+				description: 'Stop a commerce hook from firing',
+				action: 'Disable a commerce hook',
+			},
+			{
+				name: 'Enable',
+				value: 'enable',
+				description: 'Let a commerce hook fire again',
+				action: 'Enable a commerce hook',
+			},
+			{
+				name: 'Get',
+				value: 'get',
+				description: 'Get a commerce hook',
+				action: 'Get a commerce hook',
+			},
+			{
+				name: 'Get Many',
+				value: 'getAll',
+				description: 'Get many commerce hooks',
+				action: 'Get many commerce hooks',
+			},
+			{
+				name: 'Get Many Actions',
+				value: 'getActions',
+				description: 'Get the actions of a commerce hook',
+				action: 'Get many actions of a commerce hook',
+			},
+			{
+				name: 'Update',
+				value: 'update',
+				description: 'Update a commerce hook',
+				action: 'Update a commerce hook',
+			},
+			{
+				name: 'Update Action',
+				value: 'updateAction',
+				description: 'Update an action of a commerce hook',
+				action: 'Update an action of a commerce hook',
+			},
+		],
+	},
+];
+
+export const commerceHookFields: INodeProperties[] = [
+	{
+		displayName: 'Commerce Hook Name or ID',
+		name: 'commerceHookId',
+		type: 'options',
+		description:
+			'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['commerceHook'],
+				operation: [
+					'addAction',
+					'delete',
+					'deleteAction',
+					'disable',
+					'enable',
+					'get',
+					'getActions',
+					'update',
+					'updateAction',
+				],
+			},
+		},
+		typeOptions: { loadOptionsMethod: 'getCommerceHooks' },
+		default: '',
+	},
+	// Create
+	{
+		displayName: 'Name',
+		name: 'hookName',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: { resource: ['commerceHook'], operation: ['create'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'Additional Fields',
+		name: 'additionalFields',
+		type: 'collection',
+		placeholder: 'Add Field',
+		displayOptions: {
+			show: { resource: ['commerceHook'], operation: ['create'] },
+		},
+		default: {},
+		options: [eventIdField, memoField, storeIdField],
+	},
+	// Update
+	{
+		displayName: 'Update Fields',
+		name: 'updateFields',
+		type: 'collection',
+		placeholder: 'Add Field',
+		displayOptions: {
+			show: { resource: ['commerceHook'], operation: ['update'] },
+		},
+		default: {},
+		options: [
+			eventIdField,
+			memoField,
+			{
+				displayName: 'Name',
+				name: 'name',
+				type: 'string',
+				default: '',
+			},
+			storeIdField,
+		],
+	},
+	// Actions
+	{
+		displayName: 'Hook Action ID',
+		name: 'hookActionId',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: { resource: ['commerceHook'], operation: ['deleteAction', 'updateAction'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'Action Type',
+		name: 'actionId',
+		type: 'string',
+		required: true,
+		placeholder: 'EXTERNAL-WEBHOOK',
+		description: 'ID of the action type to run, as shown in the Solapi console',
+		displayOptions: {
+			show: { resource: ['commerceHook'], operation: ['addAction'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'Action Parameters (JSON)',
+		name: 'actionParams',
+		type: 'json',
+		placeholder: '{"webhookUrl": "https://example.com/hook"}',
+		description: 'Object of settings for the action, such as the webhook URL or message template',
+		displayOptions: {
+			show: { resource: ['commerceHook'], operation: ['addAction', 'updateAction'] },
+		},
+		default: '',
+	},
+	// Get Many
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		description: 'Whether to return all results or only up to a given limit',
+		displayOptions: {
+			show: { resource: ['commerceHook'], operation: ['getAll'] },
+		},
+		default: false,
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		description: 'Max number of results to return',
+		typeOptions: { minValue: 1 },
+		displayOptions: {
+			show: { resource: ['commerceHook'], operation: ['getAll'], returnAll: [false] },
+		},
+		default: 50,
+	},
+];
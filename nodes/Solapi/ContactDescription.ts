@@ -0,0 +1,221 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+export const contactOperations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['contact'],
+			},
+		},
+		default: 'create',
+		options: [
+			{
+				name: 'Add to Group',
+				value: 'addToGroup',
+				description: 'Add a contact to a contact group',
+				action: 'Add a contact to a group',
+			},
+			{
+				name: 'Create',
+				value: 'create',
+				description: 'Create a contact in the address book',
+				action: 'Create a contact',
+			},
+			{
+				name: 'Delete',
+				value: 'delete',
+				description: 'Delete a contact',
+				action: 'Delete a contact',
+			},
+			{
+				name: 'Get',
+				value: 'get',
+				description: 'Get a contact',
+				action: 'Get a contact',
+			},
+			{
+				name: 'Get Many',
+				value: 'getAll',
+				description: 'Get many contacts',
+				action: 'Get many contacts',
+			},
+			{
+				name: 'Remove From Group',
+				value: 'removeFromGroup',
+				description: 'Remove a contact from a contact group',
+				action: 'Remove a contact from a group',
+			},
+			{
+				name: 'Update',
+				value: 'update',
+				description: 'Update a contact',
+				action: 'Update a contact',
+			},
+		],
+	},
+];
+
+export const contactFields: INodeProperties[] = [
+	{
+		displayName: 'Contact ID',
+		name: 'contactId',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['contact'],
+				operation: ['addToGroup', 'delete', 'get', 'removeFromGroup', 'update'],
+			},
+		},
+		default: '',
+	},
+	{
+		displayName: 'Contact Group Name or ID',
+		name: 'contactGroupId',
+		type: 'options',
+		description:
+			'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+		required: true,
+		displayOptions: {
+			show: { resource: ['contact'], operation: ['addToGroup', 'removeFromGroup'] },
+		},
+		typeOptions: { loadOptionsMethod: 'getContactGroups' },
+		default: '',
+	},
+	// Create
+	{
+		displayName: 'Phone Number',
+		name: 'phoneNumber',
+		type: 'string',
+		required: true,
+		placeholder: '01012341234',
+		displayOptions: {
+			show: { resource: ['contact'], operation: ['create'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'Additional Fields',
+		name: 'additionalFields',
+		type: 'collection',
+		placeholder: 'Add Field',
+		displayOptions: {
+			show: { resource: ['contact'], operation: ['create'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Contact Group Names or IDs',
+				name: 'groupIds',
+				type: 'multiOptions',
+				description:
+					'Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+				typeOptions: { loadOptionsMethod: 'getContactGroups' },
+				default: [],
+			},
+			{
+				displayName: 'Memo',
+				name: 'memo',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Name',
+				name: 'name',
+				type: 'string',
+				default: '',
+			},
+		],
+	},
+	// Update
+	{
+		displayName: 'Update Fields',
+		name: 'updateFields',
+		type: 'collection',
+		placeholder: 'Add Field',
+		displayOptions: {
+			show: { resource: ['contact'], operation: ['update'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Memo',
+				name: 'memo',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Name',
+				name: 'name',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Phone Number',
+				name: 'phoneNumber',
+				type: 'string',
+				placeholder: '01012341234',
+				default: '',
+			},
+		],
+	},
+	// Get Many
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		description: 'Whether to return all results or only up to a given limit',
+		displayOptions: {
+			show: { resource: ['contact'], operation: ['getAll'] },
+		},
+		default: false,
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		description: 'Max number of results to return',
+		typeOptions: { minValue: 1 },
+		displayOptions: {
+			show: { resource: ['contact'], operation: ['getAll'], returnAll: [false] },
+		},
+		default: 50,
+	},
+	{
+		displayName: 'Filters',
+		name: 'filters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		displayOptions: {
+			show: { resource: ['contact'], operation: ['getAll'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Contact Group Name or ID',
+				name: 'groupId',
+				type: 'options',
+				description:
+					'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+				typeOptions: { loadOptionsMethod: 'getContactGroups' },
+				default: '',
+			},
+			{
+				displayName: 'Name',
+				name: 'name',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Phone Number',
+				name: 'phoneNumber',
+				type: 'string',
+				default: '',
+			},
+		],
+	},
+];
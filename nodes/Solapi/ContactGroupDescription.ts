@@ -0,0 +1,96 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+export const contactGroupOperations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['contactGroup'],
+			},
+		},
+		default: 'create',
+		options: [
+			{
+				name: 'Create',
+				value: 'create',
+				description: 'Create a contact group',
+				action: 'Create a contact group',
+			},
+			{
+				name: 'Delete',
+				value: 'delete',
+				description: 'Delete a contact group. Its contacts are kept.',
+				action: 'Delete a contact group',
+			},
+			{
+				name: 'Get',
+				value: 'get',
+				description: 'Get a contact group',
+				action: 'Get a contact group',
+			},
+			{
+				name: 'Get Many',
+				value: 'getAll',
+				description: 'Get many contact groups',
+				action: 'Get many contact groups',
+			},
+			{
+				name: 'Update',
+				value: 'update',
+				description: 'Rename a contact group',
+				action: 'Update a contact group',
+			},
+		],
+	},
+];
+
+export const contactGroupFields: INodeProperties[] = [
+	{
+		displayName: 'Contact Group Name or ID',
+		name: 'contactGroupId',
+		type: 'options',
+		description:
+			'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+		required: true,
+		displayOptions: {
+			show: { resource: ['contactGroup'], operation: ['delete', 'get', 'update'] },
+		},
+		typeOptions: { loadOptionsMethod: 'getContactGroups' },
+		default: '',
+	},
+	{
+		displayName: 'Name',
+		name: 'groupName',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: { resource: ['contactGroup'], operation: ['create', 'update'] },
+		},
+		default: '',
+	},
+	// Get Many
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		description: 'Whether to return all results or only up to a given limit',
+		displayOptions: {
+			show: { resource: ['contactGroup'], operation: ['getAll'] },
+		},
+		default: false,
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		description: 'Max number of results to return',
+		typeOptions: { minValue: 1 },
+		displayOptions: {
+			show: { resource: ['contactGroup'], operation: ['getAll'], returnAll: [false] },
+		},
+		default: 50,
+	},
+];
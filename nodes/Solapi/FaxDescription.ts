@@ -0,0 +1,50 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+export const faxFields: INodeProperties[] = [
+	{
+		displayName: 'Document Source',
+		name: 'faxDocumentSource',
+		type: 'options',
+		displayOptions: {
+			show: { operation: ['sendFax'], resource: ['message'] },
+		},
+		options: [
+			{
+				name: 'Binary Data',
+				value: 'binary',
+				description: 'Upload documents from input binary fields before sending',
+			},
+			{
+				name: 'Uploaded Documents',
+				value: 'fileIds',
+				description: 'Documents uploaded with Storage → Upload as Document (Fax)',
+			},
+		],
+		default: 'fileIds',
+	},
+	{
+		displayName: 'Document Names or IDs',
+		name: 'faxFileIds',
+		type: 'multiOptions',
+		description:
+			'Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+		required: true,
+		typeOptions: { loadOptionsMethod: 'getFaxDocuments' },
+		displayOptions: {
+			show: { operation: ['sendFax'], resource: ['message'], faxDocumentSource: ['fileIds'] },
+		},
+		default: [],
+	},
+	{
+		displayName: 'Input Binary Fields',
+		name: 'faxBinaryPropertyNames',
+		type: 'string',
+		required: true,
+		placeholder: 'data, data_1',
+		description: 'Comma-separated names of the input binary fields holding the documents',
+		displayOptions: {
+			show: { operation: ['sendFax'], resource: ['message'], faxDocumentSource: ['binary'] },
+		},
+		default: 'data',
+	},
+];
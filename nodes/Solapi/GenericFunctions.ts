@@ -1,4 +1,4 @@
-import type { IDataObject } from 'n8n-workflow';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
 
 export const SOLAPI_API_BASE_URL = 'https://api.solapi.com';
 
@@ -69,3 +69,484 @@ export async function solapiApiRequest(
 	return parseIfString(result);
 }
 
+export const SOLAPI_APP_ID = '9fEGAmn6N2vt';
+
+export const SOLAPI_MESSAGES_PER_REQUEST = 10000;
+
+/**
+ * Byte length as Solapi counts it: characters outside ASCII take two bytes, as in EUC-KR.
+ */
+export function getByteLength(text: string): number {
+	let length = 0;
+	for (const char of String(text)) length += char.charCodeAt(0) > 127 ? 2 : 1;
+	return length;
+}
+
+export const SMS_MAX_BYTES = 90;
+
+export const LMS_MAX_BYTES = 2000;
+
+/**
+ * Cuts text to at most maxBytes (counted like getByteLength) without splitting a character.
+ */
+export function truncateToByteLength(text: string, maxBytes: number): string {
+	let length = 0;
+	let result = '';
+	for (const char of String(text)) {
+		const size = char.charCodeAt(0) > 127 ? 2 : 1;
+		if (length + size > maxBytes) break;
+		length += size;
+		result += char;
+	}
+	return result;
+}
+
+export function toTemplateVariableKey(name: string): string {
+	const trimmed = String(name).trim();
+	return /^#\{.*\}$/.test(trimmed) ? trimmed : `#{${trimmed}}`;
+}
+
+export function extractTemplateVariables(content: string): string[] {
+	return [...new Set(String(content).match(/#\{[^}]+\}/g) || [])];
+}
+
+export function renderTemplate(content: string, variables: IDataObject): string {
+	return String(content).replace(/#\{[^}]+\}/g, (key) =>
+		variables[key] === undefined ? key : String(variables[key]),
+	);
+}
+
+const KAKAO_BUTTON_TYPE_NAMES: Record<string, string> = {
+	AC: 'Add Channel',
+	AL: 'App Link',
+	BC: 'Consult Talk',
+	BK: 'Bot Keyword',
+	BT: 'Bot Transfer',
+	DS: 'Delivery Search',
+	MD: 'Message Delivery',
+	WL: 'Web Link',
+};
+
+/**
+ * Checks Kakao buttons or quick replies against the count limit and the links each type needs.
+ * Returns an error message for the first problem found.
+ */
+export function validateKakaoButtons(
+	buttons: IDataObject[],
+	label: string,
+	max: number,
+): string | undefined {
+	if (buttons.length > max) {
+		return `${label}: at most ${max} are allowed, got ${buttons.length}`;
+	}
+
+	const isUrl = (value: unknown) => typeof value === 'string' && /^https?:\/\/\S+$/i.test(value);
+	for (let index = 0; index < buttons.length; index++) {
+		const button = buttons[index];
+		const position = `${label} ${index + 1}`;
+		if (!button || typeof button !== 'object' || Array.isArray(button)) {
+			return `${position} must be an object`;
+		}
+
+		const typeName = KAKAO_BUTTON_TYPE_NAMES[button.buttonType as string];
+		if (!typeName) {
+			return `${position} has an unknown type "${button.buttonType ?? ''}"`;
+		}
+		if (!String(button.buttonName ?? '').trim()) {
+			return `${position} needs a name`;
+		}
+		if (button.buttonType === 'WL' && !isUrl(button.linkMo)) {
+			return `${position}: ${typeName} buttons need a mobile link starting with http:// or https://`;
+		}
+		if (button.buttonType === 'AL' && (!button.linkAnd || !button.linkIos)) {
+			return `${position}: ${typeName} buttons need both an Android and an iOS link`;
+		}
+		if (button.linkPc && !isUrl(button.linkPc)) {
+			return `${position}: the PC link must start with http:// or https://`;
+		}
+	}
+	return undefined;
+}
+
+export function toKakaoButtons(entries: IDataObject[] | undefined): IDataObject[] {
+	return (entries || []).map((entry) => {
+		const button: IDataObject = {};
+		for (const [key, value] of Object.entries(entry || {})) {
+			if (value !== '' && value !== undefined && value !== null) button[key] = value;
+		}
+		return button;
+	});
+}
+
+export async function solapiApiRequestAllItems(
+	ctx: any,
+	propertyName: string,
+	endpoint: string,
+	qs: IDataObject = {},
+	limit?: number,
+	itemIndex?: number,
+): Promise<IDataObject[]> {
+	const returnData: IDataObject[] = [];
+	const query: IDataObject = { ...qs };
+	let nextKey: string | undefined;
+
+	do {
+		query.limit = limit ? Math.min(limit - returnData.length, 500) : 500;
+		if (nextKey) query.startKey = nextKey;
+
+		const response = (await solapiApiRequest(
+			ctx,
+			'GET',
+			endpoint,
+			undefined,
+			query,
+			undefined,
+			itemIndex,
+		)) as IDataObject;
+
+		// 목록 API는 배열 대신 id를 키로 하는 객체를 반환하기도 한다
+		const page = response?.[propertyName];
+		const entries = Array.isArray(page)
+			? (page as IDataObject[])
+			: page && typeof page === 'object'
+				? (Object.values(page) as IDataObject[])
+				: [];
+		returnData.push(...entries);
+
+		nextKey = entries.length > 0 ? (response?.nextKey as string) || undefined : undefined;
+	} while (nextKey && (!limit || returnData.length < limit));
+
+	return limit ? returnData.slice(0, limit) : returnData;
+}
+
+function getTimezoneOffset(date: Date, timezone: string): number {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone: timezone,
+		hourCycle: 'h23',
+		year: 'numeric',
+		month: '2-digit',
+		day: '2-digit',
+		hour: '2-digit',
+		minute: '2-digit',
+		second: '2-digit',
+	}).formatToParts(date);
+	const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+	const wallClock = Date.UTC(
+		get('year'),
+		get('month') - 1,
+		get('day'),
+		get('hour'),
+		get('minute'),
+		get('second'),
+	);
+	return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Converts a n8n date/time value into the ISO string Solapi expects.
+ * Values without an explicit offset are read as wall-clock time in `timezone`.
+ * Returns undefined when the value or timezone cannot be parsed.
+ */
+export function toSolapiDate(value: string, timezone: string): string | undefined {
+	const trimmed = String(value).trim();
+	if (/(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) {
+		const date = new Date(trimmed);
+		return isNaN(date.getTime()) ? undefined : date.toISOString();
+	}
+
+	const asUtc = new Date(`${trimmed}Z`);
+	if (isNaN(asUtc.getTime())) return undefined;
+
+	try {
+		// 오프셋을 두 번 계산해 서머타임 경계에서도 올바른 시각을 얻는다
+		let offset = getTimezoneOffset(asUtc, timezone);
+		offset = getTimezoneOffset(new Date(asUtc.getTime() - offset), timezone);
+		return new Date(asUtc.getTime() - offset).toISOString();
+	} catch {
+		return undefined;
+	}
+}
+
+export interface InvalidRecipient {
+	to: string;
+	reason: string;
+}
+
+function normalizeRecipient(raw: string, countryCode: string): string | InvalidRecipient {
+	let number = raw.replace(/[\s\-().]/g, '');
+	let international = false;
+	if (number.startsWith('+')) {
+		number = number.slice(1);
+		international = true;
+	} else if (number.startsWith('00')) {
+		number = number.slice(2);
+		international = true;
+	}
+	if (!/^\d+$/.test(number)) return { to: raw, reason: 'Phone number may only contain digits' };
+
+	if (international) {
+		if (!number.startsWith(countryCode)) {
+			return { to: raw, reason: `Country code does not match the Country Code ${countryCode}` };
+		}
+		number = number.slice(countryCode.length);
+		// 국내 번호는 +82 10... 형태를 010...으로 바꾼다
+		if (countryCode === '82' && !number.startsWith('0')) number = `0${number}`;
+	} else if (countryCode === '82' && /^1[016789]\d{7,8}$/.test(number)) {
+		// 스프레드시트 등에서 앞자리 0이 빠진 휴대폰 번호
+		number = `0${number}`;
+	}
+
+	// 010 휴대폰 번호는 항상 11자리다
+	const valid =
+		countryCode === '82'
+			? /^(010\d{8}|0(?!10)\d{8,10}|1\d{7})$/.test(number)
+			: /^\d{4,15}$/.test(number);
+	return valid ? number : { to: raw, reason: 'Not a valid phone number' };
+}
+
+/**
+ * Splits and normalizes recipients for the given country code. Accepts comma or newline separated
+ * strings, numbers and (nested) arrays. Duplicates are dropped and malformed numbers are returned
+ * separately instead of throwing.
+ */
+export function parseRecipients(
+	value: unknown,
+	country = '82',
+): { recipients: string[]; invalid: InvalidRecipient[] } {
+	const countryCode = String(country).replace(/\D/g, '') || '82';
+	const collect = (entry: unknown): string[] => {
+		if (Array.isArray(entry)) return entry.flatMap(collect);
+		if (entry === null || entry === undefined) return [];
+		if (typeof entry === 'object') return [JSON.stringify(entry)];
+		return String(entry).split(/[,;\n]/);
+	};
+
+	const recipients = new Set<string>();
+	const invalid = new Map<string, InvalidRecipient>();
+	for (const raw of collect(value)) {
+		const trimmed = raw.trim();
+		if (!trimmed) continue;
+		const result = normalizeRecipient(trimmed, countryCode);
+		if (typeof result === 'string') recipients.add(result);
+		else if (!invalid.has(trimmed)) invalid.set(trimmed, result);
+	}
+
+	return { recipients: [...recipients], invalid: [...invalid.values()] };
+}
+
+/**
+ * Flattens a send response into one entry per message, split into accepted and rejected ones.
+ */
+export function simplifyMessageResults(response: IDataObject): {
+	sent: IDataObject[];
+	failed: IDataObject[];
+} {
+	const groupId = (response?.groupInfo as IDataObject | undefined)?.groupId;
+	const toList = (list: unknown) =>
+		(Array.isArray(list)
+			? list
+			: list && typeof list === 'object'
+				? Object.values(list)
+				: []) as IDataObject[];
+	const simplify = (message: IDataObject): IDataObject => ({
+		to: message.to,
+		messageId: message.messageId,
+		statusCode: message.statusCode,
+		statusMessage: message.statusMessage,
+		type: message.type,
+		groupId: message.groupId ?? groupId,
+	});
+
+	return {
+		sent: toList(response?.messageList).map(simplify),
+		failed: toList(response?.failedMessageList).map(simplify),
+	};
+}
+
+export const DELIVERED_STATUS_CODE = '4000';
+
+/**
+ * Flattens a Solapi delivery report into a stable shape. Group reports that
+ * carry a messageList are expanded to one report per message. Missing values
+ * are null so every report has the same keys.
+ */
+export function simplifyReports(report: IDataObject): IDataObject[] {
+	const messages = report?.messageList;
+	const list = Array.isArray(messages)
+		? (messages as IDataObject[])
+		: messages && typeof messages === 'object'
+			? (Object.values(messages) as IDataObject[])
+			: [];
+
+	return (list.length > 0 ? list : [report]).map((message) => ({
+		messageId: message.messageId ?? null,
+		to: message.to ?? null,
+		from: message.from ?? null,
+		type: message.type ?? null,
+		statusCode: message.statusCode ?? null,
+		statusMessage: message.statusMessage ?? message.reason ?? null,
+		dateReceived: message.dateReceived ?? message.dateCompleted ?? null,
+		groupId: message.groupId ?? report.groupId ?? null,
+	}));
+}
+
+export function matchesReportFilters(report: IDataObject, filters: IDataObject): boolean {
+	const statusCode = String(report.statusCode ?? '');
+	if (filters.status === 'success' && statusCode !== DELIVERED_STATUS_CODE) return false;
+	if (filters.status === 'failure' && statusCode === DELIVERED_STATUS_CODE) return false;
+
+	const statusCodes = String(filters.statusCodes || '')
+		.split(',')
+		.map((code) => code.trim())
+		.filter((code) => code);
+	if (statusCodes.length > 0 && !statusCodes.includes(statusCode)) return false;
+
+	const types = (filters.messageTypes as string[]) || [];
+	if (types.length > 0 && !types.includes(String(report.type ?? '').toUpperCase())) return false;
+
+	const digits = (value: unknown) => String(value ?? '').replace(/\D/g, '');
+	if (filters.from && digits(report.from) !== digits(filters.from)) return false;
+	if (filters.groupId && report.groupId !== filters.groupId) return false;
+
+	return true;
+}
+
+/**
+ * Adds messages to a group, splitting them into requests of at most
+ * SOLAPI_MESSAGES_PER_REQUEST messages, and returns the combined result list.
+ */
+export async function addMessagesToGroup(
+	ctx: any,
+	groupId: string,
+	messages: IDataObject[],
+	itemIndex?: number,
+): Promise<IDataObject[]> {
+	const resultList: IDataObject[] = [];
+	for (let start = 0; start < messages.length; start += SOLAPI_MESSAGES_PER_REQUEST) {
+		const added = (await solapiApiRequest(
+			ctx,
+			'PUT',
+			`/messages/v4/groups/${groupId}/messages`,
+			{ messages: messages.slice(start, start + SOLAPI_MESSAGES_PER_REQUEST) },
+			undefined,
+			undefined,
+			itemIndex,
+		)) as { resultList?: IDataObject[] };
+		resultList.push(...(added?.resultList || []));
+	}
+	return resultList;
+}
+
+/**
+ * Sends messages right away through `send-many/detail`, or, when a scheduled date
+ * is given, creates a message group, adds the messages and reserves it.
+ * Both paths resolve to the `{ groupInfo, messageList, failedMessageList }` shape.
+ */
+export async function sendMessages(
+	ctx: any,
+	messages: IDataObject[],
+	itemIndex: number,
+	scheduledDate?: string,
+): Promise<IDataObject> {
+	if (!scheduledDate) {
+		const response = await solapiApiRequest(
+			ctx,
+			'POST',
+			'/messages/v4/send-many/detail',
+			{ messages, agent: { appId: SOLAPI_APP_ID } },
+			undefined,
+			undefined,
+			itemIndex,
+		);
+		return ((response as IDataObject).body ?? response) as IDataObject;
+	}
+
+	const group = (await solapiApiRequest(
+		ctx,
+		'POST',
+		'/messages/v4/groups',
+		{ appId: SOLAPI_APP_ID },
+		undefined,
+		undefined,
+		itemIndex,
+	)) as IDataObject;
+	const groupId = group.groupId as string;
+
+	const resultList = await addMessagesToGroup(ctx, groupId, messages, itemIndex);
+	const messageList = resultList.filter((m) => String(m.statusCode) === '2000');
+	const failedMessageList = resultList.filter((m) => String(m.statusCode) !== '2000');
+
+	if (messageList.length === 0) {
+		// 예약할 메시지가 없으면 빈 그룹을 남기지 않는다
+		await solapiApiRequest(
+			ctx,
+			'DELETE',
+			`/messages/v4/groups/${groupId}`,
+			undefined,
+			undefined,
+			undefined,
+			itemIndex,
+		);
+		return { groupInfo: group, messageList, failedMessageList };
+	}
+
+	const groupInfo = await solapiApiRequest(
+		ctx,
+		'POST',
+		`/messages/v4/groups/${groupId}/schedule`,
+		{ scheduledDate },
+		undefined,
+		undefined,
+		itemIndex,
+	);
+
+	return { groupInfo: groupInfo as IDataObject, messageList, failedMessageList };
+}
+
+export async function getBinaryFile(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	binaryPropertyName: string,
+): Promise<{ data: Buffer; name: string }> {
+	const binaryData = ctx.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+	const data = await ctx.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+	return { data, name: binaryData.fileName || binaryPropertyName };
+}
+
+export async function downloadFile(
+	ctx: IExecuteFunctions,
+	url: string,
+): Promise<{ data: Buffer; name: string }> {
+	const response = await ctx.helpers.httpRequest({
+		method: 'GET',
+		url,
+		encoding: 'arraybuffer',
+		json: false,
+	});
+	let name = '';
+	try {
+		name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+	} catch {}
+	return { data: Buffer.from(response as ArrayBuffer), name: name || 'file' };
+}
+
+export async function uploadFile(
+	ctx: any,
+	file: { data: Buffer; name: string },
+	type: string,
+	itemIndex?: number,
+	link?: string,
+): Promise<IDataObject> {
+	const body: IDataObject = { file: file.data.toString('base64'), name: file.name, type };
+	if (link) body.link = link;
+
+	return (await solapiApiRequest(
+		ctx,
+		'POST',
+		'/storage/v1/files',
+		body,
+		undefined,
+		undefined,
+		itemIndex,
+	)) as IDataObject;
+}
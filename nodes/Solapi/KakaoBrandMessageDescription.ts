@@ -0,0 +1,274 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+export const KAKAO_MAX_SUB_WIDE_ITEMS = 3;
+
+export const KAKAO_MAX_CAROUSEL_CARDS = 10;
+
+export const kakaoBrandMessageUploadTypes = [
+	{ name: 'Brand Message Carousel Commerce Image', value: 'BMS_CAROUSEL_COMMERCE_LIST' },
+	{ name: 'Brand Message Carousel Feed Image', value: 'BMS_CAROUSEL_FEED_LIST' },
+	{ name: 'Brand Message Wide Image', value: 'BMS_WIDE' },
+	{ name: 'Brand Message Wide Item List Main Image', value: 'BMS_WIDE_MAIN_ITEM_LIST' },
+	{ name: 'Brand Message Wide Item List Sub Image', value: 'BMS_WIDE_SUB_ITEM_LIST' },
+];
+
+const show = (friendTalkType: string[]) => ({
+	show: { operation: ['sendKakaoCTA'], resource: ['message'], friendTalkType },
+});
+
+export const kakaoBrandMessageFields: INodeProperties[] = [
+	{
+		displayName: 'FriendTalk Type',
+		name: 'friendTalkType',
+		type: 'options',
+		displayOptions: {
+			show: { operation: ['sendKakaoCTA'], resource: ['message'] },
+		},
+		options: [
+			{
+				name: 'Basic',
+				value: 'basic',
+				description: 'Text with an optional image and buttons',
+			},
+			{
+				name: 'Carousel Commerce',
+				value: 'carouselCommerce',
+				description: 'Swipeable product cards with prices',
+			},
+			{
+				name: 'Carousel Feed',
+				value: 'carouselFeed',
+				description: 'Swipeable cards with an image, title and text',
+			},
+			{
+				name: 'Wide Image',
+				value: 'wideImage',
+				description: 'Text with a wide image',
+			},
+			{
+				name: 'Wide Item List',
+				value: 'wideItemList',
+				description: 'A header, one main item and up to three sub items',
+			},
+		],
+		default: 'basic',
+	},
+	{
+		displayName: 'Targeting',
+		name: 'bmsTargeting',
+		type: 'options',
+		description: 'Who may receive the brand message',
+		displayOptions: show(['carouselCommerce', 'carouselFeed', 'wideImage', 'wideItemList']),
+		options: [
+			{ name: 'Channel Friends Only', value: 'I' },
+			{ name: 'Opted-in Users', value: 'M' },
+			{ name: 'Opted-in Users Who Are Not Friends', value: 'N' },
+		],
+		default: 'I',
+	},
+	// Wide image
+	{
+		displayName: 'Wide Image ID',
+		name: 'wideImageId',
+		type: 'string',
+		description:
+			'File ID of an image uploaded with type Brand Message Wide Image. Can be replaced by the Image Binary Field option.',
+		displayOptions: show(['wideImage']),
+		default: '',
+	},
+	// Wide item list
+	{
+		displayName: 'Header',
+		name: 'wideItemListHeader',
+		type: 'string',
+		required: true,
+		displayOptions: show(['wideItemList']),
+		default: '',
+	},
+	{
+		displayName: 'Main Item',
+		name: 'mainWideItem',
+		type: 'fixedCollection',
+		required: true,
+		displayOptions: show(['wideItemList']),
+		options: [
+			{
+				displayName: 'Item',
+				name: 'item',
+				values: [
+					{
+						displayName: 'Title',
+						name: 'title',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Image ID',
+						name: 'imageId',
+						type: 'string',
+						description:
+							'File ID of an image uploaded with type Brand Message Wide Item List Main Image',
+						default: '',
+					},
+					{
+						displayName: 'Mobile Link',
+						name: 'linkMo',
+						type: 'string',
+						placeholder: 'https://example.com',
+						default: '',
+					},
+				],
+			},
+		],
+		default: {},
+	},
+	{
+		displayName: 'Sub Items',
+		name: 'subWideItems',
+		type: 'fixedCollection',
+		placeholder: 'Add Sub Item',
+		description: 'Up to 3 sub items',
+		displayOptions: show(['wideItemList']),
+		typeOptions: { multipleValues: true },
+		options: [
+			{
+				displayName: 'Item',
+				name: 'item',
+				values: [
+					{
+						displayName: 'Title',
+						name: 'title',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Image ID',
+						name: 'imageId',
+						type: 'string',
+						description:
+							'File ID of an image uploaded with type Brand Message Wide Item List Sub Image',
+						default: '',
+					},
+					{
+						displayName: 'Mobile Link',
+						name: 'linkMo',
+						type: 'string',
+						placeholder: 'https://example.com',
+						default: '',
+					},
+				],
+			},
+		],
+		default: {},
+	},
+	// Carousels
+	{
+		displayName: 'Cards',
+		name: 'carouselCards',
+		type: 'fixedCollection',
+		placeholder: 'Add Card',
+		description: '2 to 10 cards',
+		displayOptions: show(['carouselCommerce', 'carouselFeed']),
+		typeOptions: { multipleValues: true },
+		options: [
+			{
+				displayName: 'Card',
+				name: 'card',
+				values: [
+					{
+						displayName: 'Additional Content',
+						name: 'additionalContent',
+						type: 'string',
+						displayOptions: { show: { '/friendTalkType': ['carouselCommerce'] } },
+						default: '',
+					},
+					{
+						displayName: 'Button 1 Link',
+						name: 'button1Link',
+						type: 'string',
+						placeholder: 'https://example.com',
+						default: '',
+					},
+					{
+						displayName: 'Button 1 Name',
+						name: 'button1Name',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Button 2 Link',
+						name: 'button2Link',
+						type: 'string',
+						placeholder: 'https://example.com',
+						default: '',
+					},
+					{
+						displayName: 'Button 2 Name',
+						name: 'button2Name',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Content',
+						name: 'content',
+						type: 'string',
+						displayOptions: { show: { '/friendTalkType': ['carouselFeed'] } },
+						default: '',
+					},
+					{
+						displayName: 'Discount Price',
+						name: 'discountPrice',
+						type: 'number',
+						displayOptions: { show: { '/friendTalkType': ['carouselCommerce'] } },
+						default: 0,
+					},
+					{
+						displayName: 'Discount Rate (%)',
+						name: 'discountRate',
+						type: 'number',
+						displayOptions: { show: { '/friendTalkType': ['carouselCommerce'] } },
+						default: 0,
+					},
+					{
+						displayName: 'Image ID',
+						name: 'imageId',
+						type: 'string',
+						description:
+							'File ID of an image uploaded with the matching Brand Message Carousel image type',
+						default: '',
+					},
+					{
+						displayName: 'Image Link',
+						name: 'imageLink',
+						type: 'string',
+						placeholder: 'https://example.com',
+						description: 'URL opened when the image is tapped',
+						default: '',
+					},
+					{
+						displayName: 'Product Name',
+						name: 'productTitle',
+						type: 'string',
+						displayOptions: { show: { '/friendTalkType': ['carouselCommerce'] } },
+						default: '',
+					},
+					{
+						displayName: 'Regular Price',
+						name: 'regularPrice',
+						type: 'number',
+						displayOptions: { show: { '/friendTalkType': ['carouselCommerce'] } },
+						default: 0,
+					},
+					{
+						displayName: 'Title',
+						name: 'header',
+						type: 'string',
+						displayOptions: { show: { '/friendTalkType': ['carouselFeed'] } },
+						default: '',
+					},
+				],
+			},
+		],
+		default: {},
+	},
+];
@@ -0,0 +1,121 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+export const KAKAO_MAX_BUTTONS = 5;
+
+export const KAKAO_MAX_QUICK_REPLIES = 10;
+
+export const kakaoButtonValues: INodeProperties[] = [
+	{
+		displayName: 'Type',
+		name: 'buttonType',
+		type: 'options',
+		options: [
+			{ name: 'Add Channel (AC)', value: 'AC' },
+			{ name: 'App Link (AL)', value: 'AL' },
+			{ name: 'Bot Keyword (BK)', value: 'BK' },
+			{ name: 'Bot Transfer (BT)', value: 'BT' },
+			{ name: 'Consult Talk (BC)', value: 'BC' },
+			{ name: 'Delivery Search (DS)', value: 'DS' },
+			{ name: 'Message Delivery (MD)', value: 'MD' },
+			{ name: 'Web Link (WL)', value: 'WL' },
+		],
+		default: 'WL',
+	},
+	{
+		displayName: 'Name',
+		name: 'buttonName',
+		type: 'string',
+		default: '',
+	},
+	{
+		displayName: 'Mobile Link',
+		name: 'linkMo',
+		type: 'string',
+		placeholder: 'https://example.com',
+		description: 'Required for web links',
+		displayOptions: {
+			show: { buttonType: ['AL', 'WL'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'PC Link',
+		name: 'linkPc',
+		type: 'string',
+		placeholder: 'https://example.com',
+		displayOptions: {
+			show: { buttonType: ['AL', 'WL'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'Android Link',
+		name: 'linkAnd',
+		type: 'string',
+		placeholder: 'exampleapp://open',
+		description: 'Required for app links',
+		displayOptions: {
+			show: { buttonType: ['AL'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'iOS Link',
+		name: 'linkIos',
+		type: 'string',
+		placeholder: 'exampleapp://open',
+		description: 'Required for app links',
+		displayOptions: {
+			show: { buttonType: ['AL'] },
+		},
+		default: '',
+	},
+];
+
+export function kakaoButtonsField(
+	name: string,
+	show: INodeProperties['displayOptions'],
+	description: string,
+): INodeProperties {
+	return {
+		displayName: 'Buttons',
+		name,
+		type: 'fixedCollection',
+		placeholder: 'Add Button',
+		description,
+		displayOptions: show,
+		typeOptions: { multipleValues: true },
+		options: [
+			{
+				displayName: 'Button',
+				name: 'button',
+				values: kakaoButtonValues,
+			},
+		],
+		default: {},
+	};
+}
+
+export function kakaoQuickRepliesField(
+	name: string,
+	show: INodeProperties['displayOptions'],
+	description: string,
+): INodeProperties {
+	return {
+		displayName: 'Quick Replies',
+		name,
+		type: 'fixedCollection',
+		placeholder: 'Add Quick Reply',
+		description,
+		displayOptions: show,
+		typeOptions: { multipleValues: true },
+		options: [
+			{
+				displayName: 'Quick Reply',
+				name: 'quickReply',
+				values: kakaoButtonValues,
+			},
+		],
+		default: {},
+	};
+}
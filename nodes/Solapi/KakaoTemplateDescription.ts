@@ -0,0 +1,375 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+import { kakaoButtonsField, kakaoQuickRepliesField } from './KakaoButtonDescription';
+
+export const kakaoTemplateOperations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['kakaoTemplate'],
+			},
+		},
+		default: 'create',
+		options: [
+			{
+				name: 'Cancel Inspection',
+				value: 'cancelInspection',
+				description: 'Withdraw a template from inspection',
+				action: 'Cancel inspection of a template',
+			},
+			{
+				name: 'Create',
+				value: 'create',
+				description: 'Create an AlimTalk template',
+				action: 'Create a template',
+			},
+			{
+				name: 'Delete',
+				value: 'delete',
+				description: 'Delete an AlimTalk template',
+				action: 'Delete a template',
+			},
+			{
+				name: 'Get',
+				value: 'get',
+				description: 'Get an AlimTalk template',
+				action: 'Get a template',
+			},
+			{
+				name: 'Get Many',
+				value: 'getAll',
+				description: 'Get many AlimTalk templates',
+				action: 'Get many templates',
+			},
+			{
+				name: 'Request Inspection',
+				value: 'requestInspection',
+				description: 'Submit a template to Kakao for review',
+				action: 'Request inspection of a template',
+			},
+			{
+				name: 'Update',
+				value: 'update',
+				description: 'Update an AlimTalk template',
+				action: 'Update a template',
+			},
+		],
+	},
+];
+
+export const kakaoTemplateFields: INodeProperties[] = [
+	{
+		displayName: 'Template ID',
+		name: 'kakaoTemplateId',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['kakaoTemplate'],
+				operation: ['cancelInspection', 'delete', 'get', 'requestInspection', 'update'],
+			},
+		},
+		default: '',
+	},
+	// Create
+	{
+		displayName: 'Kakao Channel Name or ID',
+		name: 'channelId',
+		type: 'options',
+		description:
+			'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+		required: true,
+		displayOptions: {
+			show: { resource: ['kakaoTemplate'], operation: ['create'] },
+		},
+		typeOptions: { loadOptionsMethod: 'getKakaoChannels' },
+		default: '',
+	},
+	{
+		displayName: 'Name',
+		name: 'name',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: { resource: ['kakaoTemplate'], operation: ['create'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'Content',
+		name: 'content',
+		type: 'string',
+		required: true,
+		typeOptions: { rows: 5 },
+		description: 'Template text. Use #{variable} for variables.',
+		displayOptions: {
+			show: { resource: ['kakaoTemplate'], operation: ['create'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'Category Name or ID',
+		name: 'categoryCode',
+		type: 'options',
+		description:
+			'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+		required: true,
+		displayOptions: {
+			show: { resource: ['kakaoTemplate'], operation: ['create'] },
+		},
+		typeOptions: { loadOptionsMethod: 'getKakaoTemplateCategories' },
+		default: '',
+	},
+	{
+		displayName: 'Additional Fields',
+		name: 'additionalFields',
+		type: 'collection',
+		placeholder: 'Add Field',
+		displayOptions: {
+			show: { resource: ['kakaoTemplate'], operation: ['create'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Ad Text',
+				name: 'ad',
+				type: 'string',
+				description: 'Channel add notice for channel-add and mixed message types',
+				default: '',
+			},
+			{
+				displayName: 'Emphasis Subtitle',
+				name: 'emphasizeSubtitle',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Emphasis Title',
+				name: 'emphasizeTitle',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Emphasis Type',
+				name: 'emphasizeType',
+				type: 'options',
+				options: [
+					{ name: 'Image', value: 'IMAGE' },
+					{ name: 'Item List', value: 'ITEM_LIST' },
+					{ name: 'None', value: 'NONE' },
+					{ name: 'Text', value: 'TEXT' },
+				],
+				default: 'NONE',
+			},
+			{
+				displayName: 'Extra Text',
+				name: 'extra',
+				type: 'string',
+				description: 'Additional information for extended and mixed message types',
+				default: '',
+			},
+			{
+				displayName: 'Image ID',
+				name: 'imageId',
+				type: 'string',
+				description: 'File ID of an uploaded Kakao image for the image emphasis type',
+				default: '',
+			},
+			{
+				displayName: 'Message Type',
+				name: 'messageType',
+				type: 'options',
+				options: [
+					{ name: 'Basic', value: 'BA' },
+					{ name: 'Channel Add', value: 'AD' },
+					{ name: 'Extended', value: 'EX' },
+					{ name: 'Mixed', value: 'MI' },
+				],
+				default: 'BA',
+			},
+			{
+				displayName: 'Security Template',
+				name: 'securityFlag',
+				type: 'boolean',
+				description: 'Whether the template carries sensitive data such as verification codes',
+				default: false,
+			},
+		],
+	},
+	// Update
+	{
+		displayName: 'Update Fields',
+		name: 'updateFields',
+		type: 'collection',
+		placeholder: 'Add Field',
+		displayOptions: {
+			show: { resource: ['kakaoTemplate'], operation: ['update'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Ad Text',
+				name: 'ad',
+				type: 'string',
+				description: 'Channel add notice for channel-add and mixed message types',
+				default: '',
+			},
+			{
+				displayName: 'Category Name or ID',
+				name: 'categoryCode',
+				type: 'options',
+				description:
+					'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+				typeOptions: { loadOptionsMethod: 'getKakaoTemplateCategories' },
+				default: '',
+			},
+			{
+				displayName: 'Content',
+				name: 'content',
+				type: 'string',
+				typeOptions: { rows: 5 },
+				description: 'Template text. Use #{variable} for variables.',
+				default: '',
+			},
+			{
+				displayName: 'Emphasis Subtitle',
+				name: 'emphasizeSubtitle',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Emphasis Title',
+				name: 'emphasizeTitle',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Emphasis Type',
+				name: 'emphasizeType',
+				type: 'options',
+				options: [
+					{ name: 'Image', value: 'IMAGE' },
+					{ name: 'Item List', value: 'ITEM_LIST' },
+					{ name: 'None', value: 'NONE' },
+					{ name: 'Text', value: 'TEXT' },
+				],
+				default: 'NONE',
+			},
+			{
+				displayName: 'Extra Text',
+				name: 'extra',
+				type: 'string',
+				description: 'Additional information for extended and mixed message types',
+				default: '',
+			},
+			{
+				displayName: 'Image ID',
+				name: 'imageId',
+				type: 'string',
+				description: 'File ID of an uploaded Kakao image for the image emphasis type',
+				default: '',
+			},
+			{
+				displayName: 'Message Type',
+				name: 'messageType',
+				type: 'options',
+				options: [
+					{ name: 'Basic', value: 'BA' },
+					{ name: 'Channel Add', value: 'AD' },
+					{ name: 'Extended', value: 'EX' },
+					{ name: 'Mixed', value: 'MI' },
+				],
+				default: 'BA',
+			},
+			{
+				displayName: 'Name',
+				name: 'name',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Security Template',
+				name: 'securityFlag',
+				type: 'boolean',
+				description: 'Whether the template carries sensitive data such as verification codes',
+				default: false,
+			},
+		],
+	},
+	// Create / Update: buttons
+	kakaoButtonsField(
+		'templateButtons',
+		{ show: { resource: ['kakaoTemplate'], operation: ['create', 'update'] } },
+		'Up to 5 buttons. Replaces the existing buttons on update.',
+	),
+	kakaoQuickRepliesField(
+		'templateQuickReplies',
+		{ show: { resource: ['kakaoTemplate'], operation: ['create', 'update'] } },
+		'Up to 10 quick replies. Replaces the existing quick replies on update.',
+	),
+	// Get Many
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		description: 'Whether to return all results or only up to a given limit',
+		displayOptions: {
+			show: { resource: ['kakaoTemplate'], operation: ['getAll'] },
+		},
+		default: false,
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		description: 'Max number of results to return',
+		typeOptions: { minValue: 1 },
+		displayOptions: {
+			show: { resource: ['kakaoTemplate'], operation: ['getAll'], returnAll: [false] },
+		},
+		default: 50,
+	},
+	{
+		displayName: 'Filters',
+		name: 'filters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		displayOptions: {
+			show: { resource: ['kakaoTemplate'], operation: ['getAll'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Kakao Channel Name or ID',
+				name: 'channelId',
+				type: 'options',
+				description:
+					'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+				typeOptions: { loadOptionsMethod: 'getKakaoChannels' },
+				default: '',
+			},
+			{
+				displayName: 'Name',
+				name: 'name',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Status',
+				name: 'status',
+				type: 'options',
+				options: [
+					{ name: 'Approved', value: 'APPROVED' },
+					{ name: 'Inspecting', value: 'INSPECTING' },
+					{ name: 'Pending', value: 'PENDING' },
+					{ name: 'Rejected', value: 'REJECTED' },
+				],
+				default: 'APPROVED',
+			},
+		],
+	},
+];
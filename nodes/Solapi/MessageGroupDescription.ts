@@ -0,0 +1,268 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+export const messageGroupOperations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['messageGroup'],
+			},
+		},
+		default: 'create',
+		options: [
+			{
+				name: 'Add Messages',
+				value: 'addMessages',
+				description: 'Add messages built from all input items to a group',
+				action: 'Add messages to a group',
+			},
+			{
+				name: 'Create',
+				value: 'create',
+				description: 'Create an empty message group',
+				action: 'Create a group',
+			},
+			{
+				name: 'Delete',
+				value: 'delete',
+				description: 'Delete a message group that has not been sent',
+				action: 'Delete a group',
+			},
+			{
+				name: 'Get',
+				value: 'get',
+				description: 'Get a message group with its send statistics',
+				action: 'Get a group',
+			},
+			{
+				name: 'Get Many',
+				value: 'getAll',
+				description: 'Get many message groups',
+				action: 'Get many groups',
+			},
+			{
+				name: 'Send',
+				value: 'send',
+				description: 'Send the messages of a group now or at a given time',
+				action: 'Send a group',
+			},
+		],
+	},
+];
+
+export const messageGroupFields: INodeProperties[] = [
+	{
+		displayName: 'Group ID',
+		name: 'groupId',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['messageGroup'],
+				operation: ['addMessages', 'delete', 'get', 'send'],
+			},
+		},
+		default: '',
+	},
+	// Create
+	{
+		displayName: 'Options',
+		name: 'createOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		displayOptions: {
+			show: { resource: ['messageGroup'], operation: ['create'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Allow Duplicates',
+				name: 'allowDuplicates',
+				type: 'boolean',
+				description: 'Whether the same recipient may appear more than once in the group',
+				default: false,
+			},
+		],
+	},
+	// Add Messages
+	{
+		displayName: 'Message Input',
+		name: 'messageInput',
+		type: 'options',
+		displayOptions: {
+			show: { resource: ['messageGroup'], operation: ['addMessages'] },
+		},
+		options: [
+			{
+				name: 'Text Message Fields',
+				value: 'fields',
+				description: 'Build an SMS/LMS/MMS for each recipient from the fields below',
+			},
+			{
+				name: 'JSON',
+				value: 'json',
+				description: 'Pass Solapi message objects, e.g. for Kakao messages',
+			},
+		],
+		default: 'fields',
+	},
+	{
+		displayName: 'To',
+		name: 'to',
+		type: 'string',
+		placeholder: '01012341234,01056785678',
+		description:
+			'Phone numbers separated by commas or new lines, or an expression returning an array. Hyphens, spaces and +82 prefixes are normalized and duplicates are removed.',
+		required: true,
+		displayOptions: {
+			show: { resource: ['messageGroup'], operation: ['addMessages'], messageInput: ['fields'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'From (Registered Sender ID) Name or ID',
+		name: 'from',
+		type: 'options',
+		description:
+			'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+		required: true,
+		typeOptions: {
+			loadOptionsMethod: 'getActiveSenderIds',
+		},
+		displayOptions: {
+			show: { resource: ['messageGroup'], operation: ['addMessages'], messageInput: ['fields'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'Text',
+		name: 'text',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: { resource: ['messageGroup'], operation: ['addMessages'], messageInput: ['fields'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'Subject',
+		name: 'subject',
+		type: 'string',
+		displayOptions: {
+			show: { resource: ['messageGroup'], operation: ['addMessages'], messageInput: ['fields'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'Country Code',
+		name: 'country',
+		type: 'string',
+		displayOptions: {
+			show: { resource: ['messageGroup'], operation: ['addMessages'], messageInput: ['fields'] },
+		},
+		default: '82',
+	},
+	{
+		displayName: 'Messages (JSON)',
+		name: 'messagesJson',
+		type: 'json',
+		description: 'A Solapi message object or an array of them',
+		placeholder: '[{"to":"01012341234","from":"0212345678","text":"Hello"}]',
+		required: true,
+		displayOptions: {
+			show: { resource: ['messageGroup'], operation: ['addMessages'], messageInput: ['json'] },
+		},
+		default: '',
+	},
+	// Send
+	{
+		displayName: 'Options',
+		name: 'sendOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		displayOptions: {
+			show: { resource: ['messageGroup'], operation: ['send'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Send At',
+				name: 'sendAt',
+				type: 'dateTime',
+				description: 'When to send the group. Leave empty to send immediately.',
+				default: '',
+			},
+			{
+				displayName: 'Timezone',
+				name: 'timezone',
+				type: 'string',
+				placeholder: 'Asia/Seoul',
+				description:
+					'Timezone used to read Send At when it has no offset. Defaults to the workflow timezone.',
+				default: '',
+			},
+		],
+	},
+	// Get Many
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		description: 'Whether to return all results or only up to a given limit',
+		displayOptions: {
+			show: { resource: ['messageGroup'], operation: ['getAll'] },
+		},
+		default: false,
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		description: 'Max number of results to return',
+		typeOptions: { minValue: 1 },
+		displayOptions: {
+			show: { resource: ['messageGroup'], operation: ['getAll'], returnAll: [false] },
+		},
+		default: 50,
+	},
+	{
+		displayName: 'Filters',
+		name: 'filters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		displayOptions: {
+			show: { resource: ['messageGroup'], operation: ['getAll'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Created After',
+				name: 'startDate',
+				type: 'dateTime',
+				default: '',
+			},
+			{
+				displayName: 'Created Before',
+				name: 'endDate',
+				type: 'dateTime',
+				default: '',
+			},
+			{
+				displayName: 'Status',
+				name: 'status',
+				type: 'options',
+				options: [
+					{ name: 'Complete', value: 'COMPLETE' },
+					{ name: 'Failed', value: 'FAILED' },
+					{ name: 'Pending', value: 'PENDING' },
+					{ name: 'Scheduled', value: 'SCHEDULED' },
+					{ name: 'Sending', value: 'SENDING' },
+				],
+				default: 'PENDING',
+			},
+		],
+	},
+];
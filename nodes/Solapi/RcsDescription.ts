@@ -0,0 +1,255 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+export const RCS_MIN_CAROUSEL_CARDS = 3;
+
+export const RCS_MAX_CAROUSEL_CARDS = 6;
+
+const show = (rcsMessageType?: string[]) => ({
+	show: {
+		operation: ['sendRcs'],
+		resource: ['message'],
+		...(rcsMessageType ? { rcsMessageType } : {}),
+	},
+});
+
+const rcsButtonValues: INodeProperties[] = [
+	{
+		displayName: 'Type',
+		name: 'buttonType',
+		type: 'options',
+		options: [
+			{ name: 'Call (DL)', value: 'DL' },
+			{ name: 'Open URL (WL)', value: 'WL' },
+		],
+		default: 'WL',
+	},
+	{
+		displayName: 'Name',
+		name: 'buttonName',
+		type: 'string',
+		default: '',
+	},
+	{
+		displayName: 'Link',
+		name: 'link',
+		type: 'string',
+		placeholder: 'https://example.com',
+		displayOptions: { show: { buttonType: ['WL'] } },
+		default: '',
+	},
+	{
+		displayName: 'Phone Number',
+		name: 'phone',
+		type: 'string',
+		placeholder: '0212345678',
+		displayOptions: { show: { buttonType: ['DL'] } },
+		default: '',
+	},
+];
+
+export const rcsFields: INodeProperties[] = [
+	{
+		displayName: 'RCS Brand Name or ID',
+		name: 'rcsBrandId',
+		type: 'options',
+		description:
+			'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+		required: true,
+		displayOptions: show(),
+		typeOptions: { loadOptionsMethod: 'getRcsBrands' },
+		default: '',
+	},
+	{
+		displayName: 'RCS Message Type',
+		name: 'rcsMessageType',
+		type: 'options',
+		displayOptions: show(),
+		options: [
+			{
+				name: 'Carousel',
+				value: 'carousel',
+				description: 'Swipeable cards with an image, title and description',
+			},
+			{
+				name: 'Standalone',
+				value: 'standalone',
+				description: 'Free text with an optional title and image',
+			},
+			{
+				name: 'Template',
+				value: 'template',
+				description: 'A registered RCS template with variables',
+			},
+		],
+		default: 'standalone',
+	},
+	// Standalone
+	{
+		displayName: 'Title',
+		name: 'rcsTitle',
+		type: 'string',
+		displayOptions: show(['standalone']),
+		default: '',
+	},
+	{
+		displayName: 'Text',
+		name: 'rcsText',
+		type: 'string',
+		required: true,
+		typeOptions: { rows: 4 },
+		displayOptions: show(['standalone']),
+		default: '',
+	},
+	{
+		displayName: 'Image ID',
+		name: 'rcsImageId',
+		type: 'string',
+		description:
+			'File ID of an image uploaded with type RCS Image. Can be replaced by the Image Binary Field option.',
+		displayOptions: show(['standalone']),
+		default: '',
+	},
+	// Template
+	{
+		displayName: 'RCS Template Name or ID',
+		name: 'rcsTemplateId',
+		type: 'options',
+		description:
+			'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+		required: true,
+		displayOptions: show(['template']),
+		typeOptions: { loadOptionsMethod: 'getRcsTemplates', loadOptionsDependsOn: ['rcsBrandId'] },
+		default: '',
+	},
+	{
+		displayName: 'Template Variables',
+		name: 'rcsVariables',
+		type: 'fixedCollection',
+		placeholder: 'Add Variable',
+		displayOptions: show(['template']),
+		typeOptions: { multipleValues: true },
+		options: [
+			{
+				displayName: 'Variable',
+				name: 'variable',
+				values: [
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+					},
+				],
+			},
+		],
+		default: {},
+	},
+	// Carousel
+	{
+		displayName: 'Card Width',
+		name: 'rcsCardWidth',
+		type: 'options',
+		displayOptions: show(['carousel']),
+		options: [
+			{ name: 'Medium', value: 'M' },
+			{ name: 'Small', value: 'S' },
+		],
+		default: 'M',
+	},
+	{
+		displayName: 'Cards',
+		name: 'rcsCards',
+		type: 'fixedCollection',
+		placeholder: 'Add Card',
+		description: '3 to 6 cards',
+		displayOptions: show(['carousel']),
+		typeOptions: { multipleValues: true },
+		options: [
+			{
+				displayName: 'Card',
+				name: 'card',
+				values: [
+					{
+						displayName: 'Button Link',
+						name: 'buttonLink',
+						type: 'string',
+						placeholder: 'https://example.com',
+						default: '',
+					},
+					{
+						displayName: 'Button Name',
+						name: 'buttonName',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Description',
+						name: 'description',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Image ID',
+						name: 'imageId',
+						type: 'string',
+						description: 'File ID of an image uploaded with type RCS Image',
+						default: '',
+					},
+					{
+						displayName: 'Title',
+						name: 'title',
+						type: 'string',
+						default: '',
+					},
+				],
+			},
+		],
+		default: {},
+	},
+	// Common
+	{
+		displayName: 'Buttons',
+		name: 'rcsButtons',
+		type: 'fixedCollection',
+		placeholder: 'Add Button',
+		displayOptions: show(['standalone', 'template']),
+		typeOptions: { multipleValues: true },
+		options: [
+			{
+				displayName: 'Button',
+				name: 'button',
+				values: rcsButtonValues,
+			},
+		],
+		default: {},
+	},
+	{
+		displayName: 'Fallback to SMS',
+		name: 'rcsFallbackToSms',
+		type: 'boolean',
+		description: 'Whether to send the message as SMS/LMS when the recipient cannot receive RCS',
+		displayOptions: show(),
+		default: true,
+	},
+	{
+		displayName: 'Fallback Text',
+		name: 'rcsFallbackText',
+		type: 'string',
+		description: 'Text of the SMS/LMS sent instead of a template or carousel message',
+		displayOptions: {
+			show: {
+				operation: ['sendRcs'],
+				resource: ['message'],
+				rcsMessageType: ['carousel', 'template'],
+				rcsFallbackToSms: [true],
+			},
+		},
+		default: '',
+	},
+];
@@ -0,0 +1,118 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+const sendOperations = [
+	'sendText',
+	'sendKakaoATA',
+	'sendKakaoCTA',
+	'sendRcs',
+	'sendVoice',
+	'sendFax',
+];
+
+export const recipientFields: INodeProperties[] = [
+	{
+		displayName: 'Recipients Input',
+		name: 'recipientsInputMode',
+		type: 'options',
+		displayOptions: {
+			show: { operation: sendOperations, resource: ['message'] },
+		},
+		options: [
+			{
+				name: 'Contact Group',
+				value: 'contactGroup',
+				description:
+					'Send to every contact in a Solapi contact group. The name and memo of each contact are available as #{name} and #{memo}.',
+			},
+			{
+				name: 'JSON',
+				value: 'json',
+				description: 'Pass an array of recipients, each with its own text and variables',
+			},
+			{
+				name: 'Phone Numbers',
+				value: 'list',
+				description: 'Send the same message to every number in To',
+			},
+			{
+				name: 'Recipient Fields',
+				value: 'fields',
+				description: 'Enter each recipient with its own text and variables',
+			},
+		],
+		default: 'list',
+	},
+	{
+		displayName: 'Recipients',
+		name: 'recipients',
+		type: 'fixedCollection',
+		placeholder: 'Add Recipient',
+		description:
+			'#{variable} placeholders in the text are replaced with the variables of each recipient',
+		displayOptions: {
+			show: { operation: sendOperations, resource: ['message'], recipientsInputMode: ['fields'] },
+		},
+		typeOptions: { multipleValues: true },
+		options: [
+			{
+				displayName: 'Recipient',
+				name: 'recipient',
+				values: [
+					{
+						displayName: 'Text',
+						name: 'text',
+						type: 'string',
+						description: 'Text for this recipient. Leave empty to use the message text.',
+						default: '',
+					},
+					{
+						displayName: 'To',
+						name: 'to',
+						type: 'string',
+						placeholder: '01012341234',
+						default: '',
+					},
+					{
+						displayName: 'Variables (JSON)',
+						name: 'variablesJson',
+						type: 'json',
+						placeholder: '{"name": "Hong Gildong", "orderId": "A-1001"}',
+						description: 'Object of variable names and values for this recipient',
+						default: '',
+					},
+				],
+			},
+		],
+		default: {},
+	},
+	{
+		displayName: 'Contact Group Name or ID',
+		name: 'contactGroupId',
+		type: 'options',
+		description:
+			'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+		required: true,
+		displayOptions: {
+			show: {
+				operation: sendOperations,
+				resource: ['message'],
+				recipientsInputMode: ['contactGroup'],
+			},
+		},
+		typeOptions: { loadOptionsMethod: 'getContactGroups' },
+		default: '',
+	},
+	{
+		displayName: 'Recipients (JSON)',
+		name: 'recipientsJson',
+		type: 'json',
+		required: true,
+		placeholder: '[{"to": "01012341234", "name": "Hong Gildong", "orderId": "A-1001"}]',
+		description:
+			'Array of recipient objects. Besides to and text, every field (and the fields of an optional variables object) is used as a variable.',
+		displayOptions: {
+			show: { operation: sendOperations, resource: ['message'], recipientsInputMode: ['json'] },
+		},
+		default: '',
+	},
+];
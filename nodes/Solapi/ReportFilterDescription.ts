@@ -0,0 +1,84 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+// 웹훅 트리거와 폴링 트리거가 함께 쓰는 리포트 단순화/필터 옵션
+export const reportFilterFields: INodeProperties[] = [
+	{
+		displayName: 'Simplify',
+		name: 'simplify',
+		type: 'boolean',
+		description:
+			'Whether to return one item per message with messageId, to, from, type, statusCode, statusMessage, dateReceived and groupId instead of the raw report',
+		displayOptions: { show: { eventType: ['groupReport', 'messageReport'] } },
+		default: false,
+	},
+	{
+		displayName: 'Filters',
+		name: 'filters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		description: 'Only reports matching all filters start the workflow',
+		displayOptions: { show: { eventType: ['groupReport', 'messageReport'] } },
+		default: {},
+		options: [
+			{
+				displayName: 'Group ID',
+				name: 'groupId',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Message Types',
+				name: 'messageTypes',
+				type: 'multiOptions',
+				options: [
+					{ name: 'Fax', value: 'FAX' },
+					{ name: 'Kakao AlimTalk (ATA)', value: 'ATA' },
+					{ name: 'Kakao FriendTalk (CTA)', value: 'CTA' },
+					{ name: 'Kakao FriendTalk Image (CTI)', value: 'CTI' },
+					{ name: 'LMS', value: 'LMS' },
+					{ name: 'MMS', value: 'MMS' },
+					{ name: 'RCS LMS', value: 'RCS_LMS' },
+					{ name: 'RCS MMS', value: 'RCS_MMS' },
+					{ name: 'RCS SMS', value: 'RCS_SMS' },
+					{ name: 'RCS Template', value: 'RCS_TPL' },
+					{ name: 'SMS', value: 'SMS' },
+					{ name: 'Voice', value: 'VOICE' },
+				],
+				default: [],
+			},
+			{
+				displayName: 'Sender',
+				name: 'from',
+				type: 'string',
+				description: 'Sender number',
+				default: '',
+			},
+			{
+				displayName: 'Status',
+				name: 'status',
+				type: 'options',
+				options: [
+					{
+						name: 'Failure',
+						value: 'failure',
+						description: 'Any status code other than 4000',
+					},
+					{
+						name: 'Success',
+						value: 'success',
+						description: 'Delivered messages (status code 4000)',
+					},
+				],
+				default: 'failure',
+			},
+			{
+				displayName: 'Status Codes',
+				name: 'statusCodes',
+				type: 'string',
+				placeholder: '3059, 3104',
+				description: 'Comma-separated Solapi status codes',
+				default: '',
+			},
+		],
+	},
+];
@@ -0,0 +1,122 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+export const senderIdOperations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['senderId'],
+			},
+		},
+		default: 'getAll',
+		options: [
+			{
+				name: 'Delete',
+				value: 'delete',
+				description: 'Delete a sender number',
+				action: 'Delete a sender ID',
+			},
+			{
+				name: 'Get',
+				value: 'get',
+				description: 'Get a sender number with its status and expiry',
+				action: 'Get a sender ID',
+			},
+			{
+				name: 'Get Many',
+				value: 'getAll',
+				description: 'Get many sender numbers with their status and expiry',
+				action: 'Get many sender numbers',
+			},
+			{
+				name: 'Request Registration',
+				value: 'register',
+				description: 'Request registration of a new sender number',
+				action: 'Request registration of a sender ID',
+			},
+		],
+	},
+];
+
+export const senderIdFields: INodeProperties[] = [
+	{
+		displayName: 'Phone Number',
+		name: 'phoneNumber',
+		type: 'string',
+		required: true,
+		placeholder: '0212345678',
+		displayOptions: {
+			show: { resource: ['senderId'], operation: ['delete', 'get', 'register'] },
+		},
+		default: '',
+	},
+	// Request Registration
+	{
+		displayName: 'Additional Fields',
+		name: 'additionalFields',
+		type: 'collection',
+		placeholder: 'Add Field',
+		displayOptions: {
+			show: { resource: ['senderId'], operation: ['register'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Memo',
+				name: 'memo',
+				type: 'string',
+				description: 'Note shown next to the number in the Solapi console',
+				default: '',
+			},
+		],
+	},
+	// Get Many
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		description: 'Whether to return all results or only up to a given limit',
+		displayOptions: {
+			show: { resource: ['senderId'], operation: ['getAll'] },
+		},
+		default: false,
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		description: 'Max number of results to return',
+		typeOptions: { minValue: 1 },
+		displayOptions: {
+			show: { resource: ['senderId'], operation: ['getAll'], returnAll: [false] },
+		},
+		default: 50,
+	},
+	{
+		displayName: 'Filters',
+		name: 'filters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		displayOptions: {
+			show: { resource: ['senderId'], operation: ['getAll'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Status',
+				name: 'status',
+				type: 'options',
+				options: [
+					{ name: 'Active', value: 'ACTIVE' },
+					{ name: 'Expired', value: 'EXPIRED' },
+					{ name: 'Pending', value: 'PENDING' },
+					{ name: 'Rejected', value: 'REJECTED' },
+				],
+				default: 'ACTIVE',
+			},
+		],
+	},
+];
@@ -1,6 +1,8 @@
 import type {
+	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
+	INodeParameters,
 	INodeType,
 	INodeTypeDescription,
 	ILoadOptionsFunctions,
@@ -8,78 +10,1740 @@ import type {
 } from 'n8n-workflow';
 import { NodeConnectionType, NodeOperationError } from 'n8n-workflow';
 
-import { solapiApiRequest } from './GenericFunctions';
+import type { InvalidRecipient } from './GenericFunctions';
+import {
+	LMS_MAX_BYTES,
+	SMS_MAX_BYTES,
+	SOLAPI_APP_ID,
+	SOLAPI_MESSAGES_PER_REQUEST,
+	addMessagesToGroup,
+	downloadFile,
+	extractTemplateVariables,
+	getBinaryFile,
+	getByteLength,
+	parseRecipients,
+	renderTemplate,
+	sendMessages,
+	simplifyMessageResults,
+	solapiApiRequest,
+	solapiApiRequestAllItems,
+	toKakaoButtons,
+	toSolapiDate,
+	toTemplateVariableKey,
+	truncateToByteLength,
+	uploadFile,
+	validateKakaoButtons,
+} from './GenericFunctions';
+import { accountFields, accountOperations } from './AccountDescription';
+import { commerceHookFields, commerceHookOperations } from './CommerceHookDescription';
+import { contactFields, contactOperations } from './ContactDescription';
+import { contactGroupFields, contactGroupOperations } from './ContactGroupDescription';
+import { faxFields } from './FaxDescription';
+import {
+	KAKAO_MAX_BUTTONS,
+	KAKAO_MAX_QUICK_REPLIES,
+	kakaoButtonsField,
+	kakaoQuickRepliesField,
+} from './KakaoButtonDescription';
+import {
+	KAKAO_MAX_CAROUSEL_CARDS,
+	KAKAO_MAX_SUB_WIDE_ITEMS,
+	kakaoBrandMessageFields,
+} from './KakaoBrandMessageDescription';
+import { kakaoTemplateFields, kakaoTemplateOperations } from './KakaoTemplateDescription';
+import { messageGroupFields, messageGroupOperations } from './MessageGroupDescription';
+import { RCS_MAX_CAROUSEL_CARDS, RCS_MIN_CAROUSEL_CARDS, rcsFields } from './RcsDescription';
+import { recipientFields } from './RecipientDescription';
+import { senderIdFields, senderIdOperations } from './SenderIdDescription';
+import { storageFields, storageOperations } from './StorageDescription';
+import { VOICE_MAX_REPLY_RANGE, voiceFields } from './VoiceDescription';
 
-export class Solapi implements INodeType {
-	description: INodeTypeDescription = {
-		displayName: 'Solapi',
-		name: 'solapi',
-		icon: 'file:solapi.svg',
-		group: ['output'],
-		version: 1,
-		description: 'Send messages with Solapi',
-		defaults: {
-			name: 'Solapi',
-		},
-		inputs: [NodeConnectionType.Main],
-		outputs: [NodeConnectionType.Main],
-		usableAsTool: true,
-		credentials: [
-			{
-				name: 'solapiOAuth2Api',
-				required: true,
-				displayOptions: {
-					show: {
-						authentication: ['oAuth2'],
-					},
-				},
-			},
-			{
-				name: 'solapiApiKeyApi',
-				required: true,
-				displayOptions: {
-					show: {
-						authentication: ['apiKey'],
+const SEND_OPERATIONS = [
+	'sendText',
+	'sendKakaoATA',
+	'sendKakaoCTA',
+	'sendRcs',
+	'sendVoice',
+	'sendFax',
+];
+
+// 표현식 안에서 평가되므로 외부 값을 참조하지 않는다
+const configuredOutputs = (parameters: INodeParameters) => {
+	const options = (parameters.options || {}) as INodeParameters;
+	const sendOperations = [
+		'sendText',
+		'sendKakaoATA',
+		'sendKakaoCTA',
+		'sendRcs',
+		'sendVoice',
+		'sendFax',
+	];
+	if (
+		parameters.resource === 'message' &&
+		sendOperations.includes(parameters.operation as string) &&
+		options.failedOutput === true
+	) {
+		return [
+			{ type: 'main', displayName: 'Success' },
+			{ type: 'main', displayName: 'Failed' },
+		];
+	}
+	return [{ type: 'main' }];
+};
+
+function addSendResult(
+	response: IDataObject,
+	options: IDataObject,
+	itemIndex: number,
+	returnData: INodeExecutionData[],
+	failedData: INodeExecutionData[],
+	prepared: PreparedMessages,
+): void {
+	const { sent, failed } = simplifyMessageResults(response);
+	failed.push(...toInvalidRecipientResults(prepared));
+	const failedOutput = options.failedOutput === true;
+	const messageDetails = new Map(
+		(prepared.messageDetails ?? []).map((details, index) => [
+			normalizePhoneKey(prepared.messages[index]?.to),
+			details,
+		]),
+	);
+	const toItem = (json: IDataObject): INodeExecutionData => ({
+		json: { ...json, ...prepared.details, ...messageDetails.get(normalizePhoneKey(json.to)) },
+		pairedItem: { item: itemIndex },
+	});
+
+	if (options.outputMode === 'perMessage') {
+		const messages = failedOutput ? sent : [...sent, ...failed];
+		returnData.push(...messages.map(toItem));
+	} else {
+		const json: IDataObject = { ...response, ...prepared.details };
+		if (prepared.invalidRecipients) json.invalidRecipients = prepared.invalidRecipients;
+		returnData.push({ json, pairedItem: itemIndex });
+	}
+
+	if (failedOutput) {
+		failedData.push(...failed.map(toItem));
+	}
+}
+
+// 형식이 잘못된 수신번호를 발송 실패 메시지와 같은 모양으로 만든다
+function toInvalidRecipientResults(prepared: PreparedMessages): IDataObject[] {
+	return (prepared.invalidRecipients ?? []).map(({ to, reason }) => ({
+		to,
+		statusCode: 'INVALID_RECIPIENT',
+		statusMessage: reason,
+	}));
+}
+
+function normalizePhoneKey(value: unknown): string {
+	return String(value ?? '').replace(/\D/g, '');
+}
+
+// 주소록 번호도 발송 수신번호와 같은 규칙으로 정규화해야 Contact Group 발송에서 걸러지지 않는다
+function normalizeContactPhone(ctx: IExecuteFunctions, value: unknown, itemIndex: number): string {
+	// 국가코드가 82가 아닌 해외 번호는 국내 번호로 바꾸지 않고 입력한 그대로 저장한다
+	const raw = typeof value === 'string' ? value.trim() : '';
+	const compact = raw.replace(/[\s\-().]/g, '');
+	if (/^(\+|00)\d{4,15}$/.test(compact) && !/^(\+|00)82/.test(compact)) return raw;
+
+	const { recipients, invalid } = parseRecipients(value, '82');
+	if (recipients.length !== 1 || invalid.length > 0) {
+		throw new NodeOperationError(
+			ctx.getNode(),
+			invalid.length > 0
+				? `Invalid phone number "${invalid[0].to}": ${invalid[0].reason}`
+				: 'Enter exactly one phone number',
+			{ itemIndex },
+		);
+	}
+	return recipients[0];
+}
+
+async function sendInBatches(
+	ctx: IExecuteFunctions,
+	items: INodeExecutionData[],
+	operation: string,
+	options: IDataObject,
+): Promise<{ returnData: INodeExecutionData[]; failedData: INodeExecutionData[] }> {
+	const returnData: INodeExecutionData[] = [];
+	const failedData: INodeExecutionData[] = [];
+	const queued: Array<{ message: IDataObject; itemIndex: number; details?: IDataObject }> = [];
+	const details = new Map<number, IDataObject>();
+	const requestCache: RequestCache = new Map();
+	const queuedKeys = new Set<string>();
+
+	for (let i = 0; i < items.length; i++) {
+		try {
+			const itemOptions = {
+				...(ctx.getNodeParameter('options', i, {}) as IDataObject),
+				dryRun: options.dryRun,
+			};
+			const prepared = await buildSendMessages(ctx, operation, i, itemOptions, requestCache);
+			if (prepared.skipped) {
+				returnData.push({ json: prepared.skipped, pairedItem: i });
+				continue;
+			}
+			if (options.dryRun) {
+				const previews = previewMessages(prepared);
+				returnData.push(...previews.map((json) => ({ json, pairedItem: { item: i } })));
+				continue;
+			}
+			if (prepared.details) details.set(i, prepared.details);
+			if (prepared.invalidRecipients) {
+				const invalid = toInvalidRecipientResults(prepared).map((json) => ({
+					json: { ...json, ...prepared.details },
+					pairedItem: { item: i },
+				}));
+				if (options.failedOutput === true) {
+					failedData.push(...invalid);
+				} else if (options.outputMode === 'perMessage') {
+					returnData.push(...invalid);
+				} else {
+					returnData.push({
+						json: { invalidRecipients: prepared.invalidRecipients },
+						pairedItem: i,
+					});
+				}
+			}
+			const duplicates: string[] = [];
+			prepared.messages.forEach((message, index) => {
+				// 다른 아이템에서 이미 담은 것과 같은 번호·내용의 메시지는 한 번만 보낸다
+				const key = JSON.stringify({ ...message, to: normalizePhoneKey(message.to) });
+				if (queuedKeys.has(key)) {
+					duplicates.push(String(message.to));
+					return;
+				}
+				queuedKeys.add(key);
+				const messageDetails = prepared.messageDetails?.[index];
+				const details = messageDetails
+					? { ...prepared.details, ...messageDetails }
+					: prepared.details;
+				queued.push({ message, itemIndex: i, details });
+			});
+			if (duplicates.length > 0) {
+				const skipped = duplicates.map((to) => ({
+					json: {
+						to,
+						statusCode: 'DUPLICATE_MESSAGE',
+						statusMessage: 'Same message to this number was already queued by an earlier item',
+						...prepared.details,
 					},
+					pairedItem: { item: i },
+				}));
+				if (options.outputMode === 'perMessage') {
+					returnData.push(...skipped);
+				} else {
+					returnData.push({ json: { duplicateRecipients: duplicates }, pairedItem: i });
+				}
+			}
+		} catch (error) {
+			if (ctx.continueOnFail()) {
+				returnData.push({ json: { error: (error as Error).message }, pairedItem: i });
+				continue;
+			}
+			throw error;
+		}
+	}
+
+	const scheduledDate = resolveSendAt(
+		ctx,
+		(options.sendAt as string) || '',
+		(options.timezone as string) || '',
+		0,
+	);
+	if (options.minimumBalance !== undefined && queued.length > 0) {
+		await assertBalanceCovers(
+			ctx,
+			queued.map((entry) => entry.message),
+			Number(options.minimumBalance),
+			queued[0].itemIndex,
+			requestCache,
+			{ amount: 0 },
+		);
+	}
+	// 예약 발송은 하나의 그룹으로 묶는다. 그룹 추가 요청은 sendMessages가 나눠서 보낸다
+	const batchSize = scheduledDate
+		? Math.max(queued.length, 1)
+		: Math.min(
+				Number(options.batchSize) || SOLAPI_MESSAGES_PER_REQUEST,
+				SOLAPI_MESSAGES_PER_REQUEST,
+			);
+	const concurrency = Math.max(Number(options.concurrency) || 1, 1);
+
+	const batches: Array<typeof queued> = [];
+	for (let start = 0; start < queued.length; start += batchSize) {
+		batches.push(queued.slice(start, start + batchSize));
+	}
+
+	// 실패한 배치로 중단할 때 이미 발송된 배치를 알려 재시도 시 중복 발송을 막는다
+	const sentBatches: string[] = [];
+	for (let start = 0; start < batches.length; start += concurrency) {
+		const running = batches.slice(start, start + concurrency);
+		const settled = await Promise.allSettled(
+			running.map((batch) =>
+				sendMessages(
+					ctx,
+					batch.map((entry) => entry.message),
+					batch[0].itemIndex,
+					scheduledDate,
+				),
+			),
+		);
+
+		let rejected: { batchNumber: number; itemIndex: number; reason: unknown } | undefined;
+		settled.forEach((result, index) => {
+			const batch = running[index];
+			const batchNumber = start + index + 1;
+			const itemIndexes = [...new Set(batch.map((entry) => entry.itemIndex))];
+			const batchPairedItem = itemIndexes.map((item) => ({ item }));
+
+			if (result.status === 'rejected') {
+				if (!ctx.continueOnFail()) {
+					rejected ??= { batchNumber, itemIndex: batch[0].itemIndex, reason: result.reason };
+					return;
+				}
+				returnData.push({
+					json: { error: (result.reason as Error)?.message },
+					pairedItem: batchPairedItem,
+				});
+				return;
+			}
+
+			// 응답의 수신번호를 요청 순서대로 원래 아이템에 대응시킨다
+			const pending = new Map<string, Array<(typeof batch)[number]>>();
+			for (const entry of batch) {
+				const key = normalizePhoneKey(entry.message.to);
+				pending.set(key, [...(pending.get(key) ?? []), entry]);
+			}
+			const pairMessage = (json: IDataObject): INodeExecutionData => {
+				const entry = pending.get(normalizePhoneKey(json.to))?.shift();
+				if (entry === undefined) return { json, pairedItem: batchPairedItem };
+				return { json: { ...json, ...entry.details }, pairedItem: { item: entry.itemIndex } };
+			};
+
+			const response = result.value;
+			const groupId = (response?.groupInfo as IDataObject | undefined)?.groupId;
+			sentBatches.push(
+				`batch ${batchNumber} (${batch.length} messages${groupId ? `, group ${groupId}` : ''})`,
+			);
+			const { sent, failed } = simplifyMessageResults(response);
+			const pairedSent = sent.map(pairMessage);
+			const pairedFailed = failed.map(pairMessage);
+			const failedOutput = options.failedOutput === true;
+
+			if (options.outputMode === 'perMessage') {
+				returnData.push(...pairedSent, ...(failedOutput ? [] : pairedFailed));
+			} else {
+				const batchDetails = itemIndexes.length === 1 ? details.get(itemIndexes[0]) : undefined;
+				returnData.push({ json: { ...response, ...batchDetails }, pairedItem: batchPairedItem });
+			}
+			if (failedOutput) failedData.push(...pairedFailed);
+		});
+
+		if (rejected) {
+			const message = (rejected.reason as Error)?.message || 'unknown error';
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`Batch ${rejected.batchNumber} of ${batches.length} failed: ${message}`,
+				{
+					itemIndex: rejected.itemIndex,
+					description:
+						sentBatches.length > 0
+							? `Already sent, do not resend: ${sentBatches.join('; ')}`
+							: 'No batch was sent',
 				},
-			},
-		],
-		properties: [
+			);
+		}
+	}
+
+	return { returnData, failedData };
+}
+
+function resolveSendAt(
+	ctx: IExecuteFunctions,
+	sendAt: string,
+	timezone: string,
+	itemIndex: number,
+): string | undefined {
+	if (!sendAt) return undefined;
+	const scheduledDate = toSolapiDate(sendAt, timezone || ctx.getTimezone());
+	if (!scheduledDate) {
+		throw new NodeOperationError(ctx.getNode(), `Invalid Send At value: ${sendAt}`, { itemIndex });
+	}
+	if (new Date(scheduledDate).getTime() <= Date.now()) {
+		throw new NodeOperationError(ctx.getNode(), 'Send At must be in the future', { itemIndex });
+	}
+	return scheduledDate;
+}
+
+interface PreparedMessages {
+	messages: IDataObject[];
+	// 발송 본문. 알림톡은 템플릿 변수를 치환한 결과
+	texts?: string[];
+	// 발송하지 않고 건너뛴 경우 그 사유
+	skipped?: IDataObject;
+	// 출력 아이템에 덧붙일 정보. 문자는 계산한 메시지 타입과 바이트 길이
+	details?: IDataObject;
+	// 수신자마다 다른 정보. messages와 같은 순서
+	messageDetails?: IDataObject[];
+	// 형식이 잘못되어 발송에서 제외한 수신번호
+	invalidRecipients?: InvalidRecipient[];
+}
+
+// 한 번의 실행 동안 같은 조회 요청을 다시 보내지 않도록 결과를 보관한다
+type RequestCache = Map<string, Promise<unknown>>;
+
+interface RecipientPersonalization {
+	text?: string;
+	// #{변수} 형태의 키
+	variables: Record<string, string>;
+}
+
+type Personalizations = Map<string, RecipientPersonalization>;
+
+function personalizeText(text: string, personalization?: RecipientPersonalization): string {
+	if (!personalization) return text;
+	return renderTemplate(personalization.text || text, personalization.variables);
+}
+
+async function getSendableTemplate(
+	ctx: IExecuteFunctions,
+	pfId: string,
+	templateId: string,
+	itemIndex: number,
+	cache: RequestCache,
+): Promise<IDataObject | undefined> {
+	const key = `template:${pfId}:${templateId}`;
+	if (!cache.has(key)) {
+		const request = solapiApiRequest(
+			ctx,
+			'GET',
+			'/kakao/v1/templates/sendable',
+			undefined,
+			{ pfId },
+			undefined,
+			itemIndex,
+		).then((res) =>
+			(Array.isArray(res) ? (res as IDataObject[]) : []).find((t) => t.templateId === templateId),
+		);
+		cache.set(key, request);
+	}
+	return (await cache.get(key)) as IDataObject | undefined;
+}
+
+async function assertSenderIdUsable(
+	ctx: IExecuteFunctions,
+	from: string,
+	itemIndex: number,
+	cache: RequestCache,
+): Promise<void> {
+	if (!cache.has('senderIds')) {
+		cache.set(
+			'senderIds',
+			solapiApiRequestAllItems(
+				ctx,
+				'senderIdList',
+				'/senderid/v1/numbers',
+				{},
+				undefined,
+				itemIndex,
+			),
+		);
+	}
+	const senderIds = (await cache.get('senderIds')) as IDataObject[];
+	const sender = senderIds.find(
+		(entry) => normalizePhoneKey(entry.phoneNumber) === normalizePhoneKey(from),
+	);
+	const fail = (message: string) => new NodeOperationError(ctx.getNode(), message, { itemIndex });
+
+	if (!sender) throw fail(`Sender ID ${from} is not registered in Solapi`);
+	const status = String(sender.status ?? '').toUpperCase();
+	if (status && status !== 'ACTIVE') {
+		throw fail(`Sender ID ${from} is ${status.toLowerCase()} and cannot send messages`);
+	}
+	const expireAt = sender.expireAt ? new Date(sender.expireAt as string) : undefined;
+	if (expireAt && !isNaN(expireAt.getTime()) && expireAt.getTime() <= Date.now()) {
+		throw fail(
+			`Sender ID ${from} expired on ${sender.expireAt as string}. Renew it in the Solapi console.`,
+		);
+	}
+}
+
+function getPriceKey(message: IDataObject): string {
+	if (message.type) return String(message.type).toUpperCase();
+	const kakaoOptions = message.kakaoOptions as IDataObject | undefined;
+	if (kakaoOptions) return kakaoOptions.templateId ? 'ATA' : kakaoOptions.imageId ? 'CTI' : 'CTA';
+	if (message.imageId) return 'MMS';
+	return getByteLength((message.text as string) || '') > SMS_MAX_BYTES ? 'LMS' : 'SMS';
+}
+
+// 잔액과 단가는 실행당 한 번만 조회하고, 앞서 보낸 아이템의 예상 비용은 spent에 누적한다
+async function assertBalanceCovers(
+	ctx: IExecuteFunctions,
+	messages: IDataObject[],
+	minimumBalance: number,
+	itemIndex: number,
+	cache: RequestCache,
+	spent: { amount: number },
+): Promise<void> {
+	const load = async (key: string, endpoint: string) => {
+		if (!cache.has(key)) {
+			cache.set(
+				key,
+				solapiApiRequest(ctx, 'GET', endpoint, undefined, undefined, undefined, itemIndex),
+			);
+		}
+		return ((await cache.get(key)) ?? {}) as IDataObject;
+	};
+	const [balance, pricing] = await Promise.all([
+		load('balance', '/cash/v1/balance'),
+		load('pricing', '/pricing/v1/messaging'),
+	]);
+
+	const prices = new Map<string, number>();
+	for (const [key, value] of Object.entries(pricing)) {
+		const price = typeof value === 'string' && value.trim() ? Number(value) : value;
+		if (typeof price === 'number' && !isNaN(price)) prices.set(key.toUpperCase(), price);
+	}
+	// 단가를 모르는 타입이 있으면 비용을 어림하지 않고 발송을 막는다
+	const unknown = [
+		...new Set(messages.map(getPriceKey).filter((key) => prices.get(key) === undefined)),
+	];
+	if (unknown.length > 0) {
+		throw new NodeOperationError(
+			ctx.getNode(),
+			`Cannot check the minimum balance: no unit price for ${unknown.join(', ')}`,
 			{
-				displayName: 'Authentication',
-				name: 'authentication',
-				type: 'options',
-				default: 'oAuth2',
-				options: [
-					{ name: 'OAuth2', value: 'oAuth2' },
-					{ name: 'API Key (HMAC-SHA256)', value: 'apiKey' },
-				],
+				itemIndex,
+				description:
+					'The pricing response did not include these message types, so the cost is unknown. Remove the Minimum Balance option to send without the check.',
 			},
+		);
+	}
+	const cost = messages.reduce(
+		(sum, message) => sum + (prices.get(getPriceKey(message)) as number),
+		0,
+	);
+	const available = Number(balance.balance ?? 0) + Number(balance.point ?? 0);
+	const remaining = available - spent.amount - cost;
+	if (remaining < minimumBalance) {
+		throw new NodeOperationError(
+			ctx.getNode(),
+			`Sending ${messages.length} messages would cost about ${cost} and leave ${remaining} of the available ${available}, below the minimum balance of ${minimumBalance}`,
+			{ itemIndex },
+		);
+	}
+	spent.amount += cost;
+}
+
+function previewMessages(prepared: PreparedMessages): IDataObject[] {
+	const previews: IDataObject[] = prepared.messages.map((message, index) => {
+		const text = prepared.texts?.[index] ?? ((message.text as string) || '');
+		const imageId = message.imageId ?? (message.kakaoOptions as IDataObject | undefined)?.imageId;
+		const fileIds = (message.faxOptions as IDataObject | undefined)?.fileIds;
+		return {
+			to: message.to,
+			text,
+			byteLength: getByteLength(text),
+			...(imageId ? { imageId } : {}),
+			...(fileIds ? { fileIds } : {}),
+			...prepared.details,
+			...prepared.messageDetails?.[index],
+		};
+	});
+	return [...previews, ...toInvalidRecipientResults(prepared)];
+}
+
+function toVariableValue(
+	ctx: IExecuteFunctions,
+	key: string,
+	value: unknown,
+	itemIndex: number,
+): string {
+	if (typeof value === 'string') return value;
+	throw new NodeOperationError(
+		ctx.getNode(),
+		`Template variable ${key} in item ${itemIndex} must be a string, got ${value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value}`,
+		{
+			itemIndex,
+			description: 'Convert the value to text first, for example {{ String($json.amount) }}',
+		},
+	);
+}
+
+function collectTemplateVariables(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	requiredVariables: string[],
+): Record<string, string> {
+	const mode = ctx.getNodeParameter('variablesInputMode', itemIndex, 'fields') as string;
+	const variables: Record<string, string> = {};
+
+	if (mode === 'json') {
+		const raw = ctx.getNodeParameter('variablesJson', itemIndex, '') as unknown;
+		let parsed: unknown = raw;
+		if (typeof raw === 'string') {
+			if (!raw.trim()) return variables;
+			try {
+				parsed = JSON.parse(raw);
+			} catch (error) {
+				throw new NodeOperationError(
+					ctx.getNode(),
+					`Template Variables (JSON) is not valid JSON: ${(error as Error).message}`,
+					{ itemIndex },
+				);
+			}
+		}
+		if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+			throw new NodeOperationError(
+				ctx.getNode(),
+				'Template Variables (JSON) must be an object of variable names and values',
+				{ itemIndex },
+			);
+		}
+		for (const [key, value] of Object.entries(parsed)) {
+			variables[toTemplateVariableKey(key)] = toVariableValue(ctx, key, value, itemIndex);
+		}
+		return variables;
+	}
+
+	if (mode === 'item') {
+		const sourceField = (
+			ctx.getNodeParameter('variablesSourceField', itemIndex, '') as string
+		).trim();
+		const json = ctx.getInputData()[itemIndex]?.json ?? {};
+		const source = sourceField
+			? sourceField
+					.split('.')
+					.reduce<unknown>((value, part) => (value as IDataObject)?.[part], json)
+			: json;
+		if (!source || typeof source !== 'object' || Array.isArray(source)) {
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`Input field "${sourceField}" must be an object of variable names and values`,
+				{ itemIndex },
+			);
+		}
+		// 템플릿 변수 이름(#{} 제외)과 같은 이름의 필드를 찾는다
+		for (const key of requiredVariables) {
+			const name = key.slice(2, -1);
+			const value = (source as IDataObject)[name] ?? (source as IDataObject)[key];
+			if (value === undefined) continue;
+			variables[key] = toVariableValue(ctx, name, value, itemIndex);
+		}
+		return variables;
+	}
+
+	const collection = ctx.getNodeParameter('variables', itemIndex, {}) as IDataObject;
+	for (const entry of (collection.variable as Array<{ name?: string; value?: string }>) || []) {
+		if (!entry) continue;
+		const key = (entry.name || '').trim();
+		if (key) variables[toTemplateVariableKey(key)] = String(entry.value ?? '').trim();
+	}
+	return variables;
+}
+
+function getKakaoButtons(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	parameterName: string,
+	entryName: 'button' | 'quickReply',
+): IDataObject[] | undefined {
+	const collection = ctx.getNodeParameter(parameterName, itemIndex, {}) as IDataObject;
+	const entries = collection[entryName];
+	if (!Array.isArray(entries) || entries.length === 0) return undefined;
+
+	const buttons = toKakaoButtons(entries as IDataObject[]);
+	const error =
+		entryName === 'button'
+			? validateKakaoButtons(buttons, 'Button', KAKAO_MAX_BUTTONS)
+			: validateKakaoButtons(buttons, 'Quick reply', KAKAO_MAX_QUICK_REPLIES);
+	if (error) throw new NodeOperationError(ctx.getNode(), error, { itemIndex });
+	return buttons;
+}
+
+// 버전 1 노드에서 쓰던 JSON 문자열 버튼 입력
+function getLegacyKakaoButtons(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+): IDataObject[] | undefined {
+	const buttonsJson = (ctx.getNodeParameter('buttonsJson', itemIndex, '') as string) || '';
+	if (!buttonsJson.trim()) return undefined;
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(buttonsJson);
+	} catch (error) {
+		throw new NodeOperationError(
+			ctx.getNode(),
+			`Buttons (JSON Array) is not valid JSON: ${(error as Error).message}`,
+			{ itemIndex },
+		);
+	}
+	if (!Array.isArray(parsed)) {
+		throw new NodeOperationError(ctx.getNode(), 'Buttons (JSON Array) must be an array', {
+			itemIndex,
+		});
+	}
+
+	const error = validateKakaoButtons(parsed as IDataObject[], 'Button', KAKAO_MAX_BUTTONS);
+	if (error) throw new NodeOperationError(ctx.getNode(), error, { itemIndex });
+	return parsed.length > 0 ? (parsed as IDataObject[]) : undefined;
+}
+
+function toWideItem(item: IDataObject): IDataObject {
+	const wideItem: IDataObject = { title: item.title, imageId: item.imageId };
+	if (item.linkMo) wideItem.linkMo = item.linkMo;
+	return wideItem;
+}
+
+async function buildBrandMessage(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	friendTalkType: string,
+	options: IDataObject,
+): Promise<IDataObject> {
+	const targeting = ctx.getNodeParameter('bmsTargeting', itemIndex, 'I') as string;
+	const fail = (message: string) => new NodeOperationError(ctx.getNode(), message, { itemIndex });
+
+	if (friendTalkType === 'wideImage') {
+		const imageId =
+			(await uploadImageFromBinary(ctx, options, 'BMS_WIDE', itemIndex)) ||
+			(ctx.getNodeParameter('wideImageId', itemIndex, '') as string);
+		if (!imageId) throw fail('Wide image messages need a Wide Image ID or an Image Binary Field');
+		return { targeting, chatBubbleType: 'WIDE', imageId };
+	}
+
+	// 아이템/카드마다 이미지가 따로 있어 하나의 바이너리로는 채울 수 없다
+	if (((options.imageBinaryPropertyName as string) || '').trim()) {
+		throw new NodeOperationError(
+			ctx.getNode(),
+			'Image Binary Field is not supported for wide item list and carousel messages',
 			{
-				displayName: 'Resource',
-				name: 'resource',
-				type: 'options',
-				noDataExpression: true,
-				default: 'message',
-				options: [
-					{
-						name: 'Message',
-						value: 'message',
-					},
-				],
+				itemIndex,
+				description:
+					'Upload each image with Storage → Upload (Brand Message file types) and enter the file IDs on the items or cards',
 			},
-			{
-				displayName: 'Operation',
-				name: 'operation',
-				type: 'options',
-				noDataExpression: true,
-				displayOptions: {
-					show: {
-						resource: ['message'],
-					},
+		);
+	}
+
+	if (friendTalkType === 'wideItemList') {
+		const header = ctx.getNodeParameter('wideItemListHeader', itemIndex, '') as string;
+		const main = (ctx.getNodeParameter('mainWideItem', itemIndex, {}) as IDataObject).item as
+			| IDataObject
+			| undefined;
+		const subItems =
+			((ctx.getNodeParameter('subWideItems', itemIndex, {}) as IDataObject)
+				.item as IDataObject[]) || [];
+		if (!header) throw fail('Wide item list messages need a header');
+		if (!main?.title || !main.imageId) throw fail('The main item needs a title and an image ID');
+		if (subItems.length > KAKAO_MAX_SUB_WIDE_ITEMS) {
+			throw fail(
+				`At most ${KAKAO_MAX_SUB_WIDE_ITEMS} sub items are allowed, got ${subItems.length}`,
+			);
+		}
+		subItems.forEach((item, index) => {
+			if (!item.title || !item.imageId) {
+				throw fail(`Sub item ${index + 1} needs a title and an image ID`);
+			}
+		});
+		return {
+			targeting,
+			chatBubbleType: 'WIDE_ITEM_LIST',
+			header,
+			mainWideItem: toWideItem(main),
+			subWideItemList: subItems.map(toWideItem),
+		};
+	}
+
+	const isFeed = friendTalkType === 'carouselFeed';
+	const cards =
+		((ctx.getNodeParameter('carouselCards', itemIndex, {}) as IDataObject).card as IDataObject[]) ||
+		[];
+	if (cards.length < 2 || cards.length > KAKAO_MAX_CAROUSEL_CARDS) {
+		throw fail(
+			`Carousel messages need 2 to ${KAKAO_MAX_CAROUSEL_CARDS} cards, got ${cards.length}`,
+		);
+	}
+
+	const list = cards.map((card, index) => {
+		const position = `Card ${index + 1}`;
+		if (!card.imageId) throw fail(`${position} needs an image ID`);
+
+		const entry: IDataObject = { imageId: card.imageId };
+		if (card.imageLink) entry.imageLink = card.imageLink;
+
+		if (isFeed) {
+			if (!card.header || !card.content) throw fail(`${position} needs a title and content`);
+			entry.header = card.header;
+			entry.content = card.content;
+		} else {
+			if (!card.productTitle || !card.regularPrice) {
+				throw fail(`${position} needs a product name and a regular price`);
+			}
+			const commerce: IDataObject = { title: card.productTitle, regularPrice: card.regularPrice };
+			if (card.discountPrice) commerce.discountPrice = card.discountPrice;
+			if (card.discountRate) commerce.discountRate = card.discountRate;
+			entry.commerce = commerce;
+			if (card.additionalContent) entry.additionalContent = card.additionalContent;
+		}
+
+		const buttons = [1, 2]
+			.filter((n) => card[`button${n}Name`])
+			.map((n) => ({
+				buttonType: 'WL',
+				buttonName: card[`button${n}Name`],
+				linkMo: card[`button${n}Link`],
+			}));
+		const error = validateKakaoButtons(buttons, `${position} button`, 2);
+		if (error) throw fail(error);
+		if (buttons.length > 0) entry.buttons = buttons;
+
+		return entry;
+	});
+
+	return {
+		targeting,
+		chatBubbleType: isFeed ? 'CAROUSEL_FEED' : 'CAROUSEL_COMMERCE',
+		carousel: { list },
+	};
+}
+
+async function uploadImageFromBinary(
+	ctx: IExecuteFunctions,
+	options: IDataObject,
+	type: string,
+	itemIndex: number,
+): Promise<string | undefined> {
+	const binaryPropertyName = ((options.imageBinaryPropertyName as string) || '').trim();
+	if (!binaryPropertyName) return undefined;
+
+	const file = await getBinaryFile(ctx, itemIndex, binaryPropertyName);
+	// Dry Run은 스토리지에 올리지 않고 미리보기에 자리표시자만 남긴다
+	if (options.dryRun === true) return `(binary: ${binaryPropertyName})`;
+	const uploaded = await uploadFile(ctx, file, type, itemIndex);
+	return uploaded.fileId as string;
+}
+
+function toRcsButtons(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	entries: IDataObject[],
+	label: string,
+): IDataObject[] {
+	return entries.map((entry, index) => {
+		const position = `${label} ${index + 1}`;
+		const buttonType = (entry.buttonType as string) || 'WL';
+		const buttonName = ((entry.buttonName as string) || '').trim();
+		if (!buttonName) {
+			throw new NodeOperationError(ctx.getNode(), `${position} needs a name`, { itemIndex });
+		}
+		if (buttonType === 'DL') {
+			const phone = ((entry.phone as string) || '').trim();
+			if (!phone) {
+				throw new NodeOperationError(ctx.getNode(), `${position} needs a phone number`, {
+					itemIndex,
+				});
+			}
+			return { buttonType, buttonName, phone };
+		}
+		const link = ((entry.link as string) || '').trim();
+		if (!/^https?:\/\//i.test(link)) {
+			throw new NodeOperationError(ctx.getNode(), `${position} needs an http(s) link`, {
+				itemIndex,
+			});
+		}
+		return { buttonType, buttonName, link };
+	});
+}
+
+// RCS 메시지 본문과 rcsOptions를 만든다. 문자 대체 발송 본문은 text로 보낸다
+async function buildRcsMessage(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	options: IDataObject,
+): Promise<IDataObject> {
+	const rcsMessageType = ctx.getNodeParameter('rcsMessageType', itemIndex, 'standalone') as string;
+	const fallbackToSms = ctx.getNodeParameter('rcsFallbackToSms', itemIndex, true) as boolean;
+	const rcsOptions: IDataObject = {
+		brandId: ctx.getNodeParameter('rcsBrandId', itemIndex) as string,
+		disableSms: !fallbackToSms,
+	};
+	const fail = (message: string) => new NodeOperationError(ctx.getNode(), message, { itemIndex });
+
+	const buttonEntries =
+		((ctx.getNodeParameter('rcsButtons', itemIndex, {}) as IDataObject).button as IDataObject[]) ||
+		[];
+	if (rcsMessageType !== 'carousel' && buttonEntries.length > 0) {
+		rcsOptions.buttons = toRcsButtons(ctx, itemIndex, buttonEntries, 'Button');
+	}
+
+	if (rcsMessageType === 'standalone') {
+		const text = ctx.getNodeParameter('rcsText', itemIndex) as string;
+		const title = ctx.getNodeParameter('rcsTitle', itemIndex, '') as string;
+		const imageId =
+			(await uploadImageFromBinary(ctx, options, 'RCS', itemIndex)) ||
+			(ctx.getNodeParameter('rcsImageId', itemIndex, '') as string);
+		if (!text) throw fail('RCS messages need a text');
+
+		const message: IDataObject = {
+			type: imageId ? 'RCS_MMS' : text.length > 100 ? 'RCS_LMS' : 'RCS_SMS',
+			text,
+			rcsOptions,
+		};
+		if (title) message.subject = title;
+		if (imageId) message.imageId = imageId;
+		return message;
+	}
+
+	const fallbackText = fallbackToSms
+		? (ctx.getNodeParameter('rcsFallbackText', itemIndex, '') as string)
+		: '';
+
+	if (rcsMessageType === 'template') {
+		rcsOptions.templateId = ctx.getNodeParameter('rcsTemplateId', itemIndex) as string;
+		const variables: Record<string, string> = {};
+		const collection = ctx.getNodeParameter('rcsVariables', itemIndex, {}) as IDataObject;
+		for (const entry of (collection.variable as Array<{ name?: string; value?: string }>) || []) {
+			const key = (entry?.name || '').trim();
+			if (key) variables[toTemplateVariableKey(key)] = String(entry.value ?? '');
+		}
+		if (Object.keys(variables).length > 0) rcsOptions.variables = variables;
+
+		const message: IDataObject = { type: 'RCS_TPL', rcsOptions };
+		if (fallbackText) message.text = fallbackText;
+		return message;
+	}
+
+	const cards =
+		((ctx.getNodeParameter('rcsCards', itemIndex, {}) as IDataObject).card as IDataObject[]) || [];
+	if (cards.length < RCS_MIN_CAROUSEL_CARDS || cards.length > RCS_MAX_CAROUSEL_CARDS) {
+		throw fail(
+			`Carousel messages need ${RCS_MIN_CAROUSEL_CARDS} to ${RCS_MAX_CAROUSEL_CARDS} cards, got ${cards.length}`,
+		);
+	}
+	const cardWidth = ctx.getNodeParameter('rcsCardWidth', itemIndex, 'M') as string;
+	rcsOptions.mmsType = `${cardWidth}${cards.length}`;
+	rcsOptions.additionalBody = cards.map((card, index) => {
+		const position = `Card ${index + 1}`;
+		if (!card.title || !card.description) throw fail(`${position} needs a title and a description`);
+		if (!card.imageId) throw fail(`${position} needs an image ID`);
+
+		const body: IDataObject = {
+			title: card.title,
+			description: card.description,
+			imageId: card.imageId,
+		};
+		if (card.buttonName) {
+			body.buttons = toRcsButtons(
+				ctx,
+				itemIndex,
+				[{ buttonType: 'WL', buttonName: card.buttonName, link: card.buttonLink }],
+				`${position} button`,
+			);
+		}
+		return body;
+	});
+
+	const message: IDataObject = { type: 'RCS_MMS', rcsOptions };
+	if (fallbackText) message.text = fallbackText;
+	return message;
+}
+
+function buildVoiceOptions(ctx: IExecuteFunctions, itemIndex: number): IDataObject {
+	const settings = ctx.getNodeParameter('voiceOptions', itemIndex, {}) as IDataObject;
+	const voiceOptions: IDataObject = {
+		voiceType: ctx.getNodeParameter('voiceType', itemIndex, 'FEMALE') as string,
+	};
+	if (settings.headerMessage) voiceOptions.headerMessage = settings.headerMessage;
+	if (settings.tailMessage) voiceOptions.tailMessage = settings.tailMessage;
+	if (settings.counselorNumber) voiceOptions.counselorNumber = settings.counselorNumber;
+
+	if (settings.replyRange !== undefined) {
+		const replyRange = Number(settings.replyRange);
+		if (!Number.isInteger(replyRange) || replyRange < 1 || replyRange > VOICE_MAX_REPLY_RANGE) {
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`Reply Range must be a whole number from 1 to ${VOICE_MAX_REPLY_RANGE}`,
+				{ itemIndex },
+			);
+		}
+		// 응답 번호 안내는 테일 메시지로 읽어 준다
+		if (!settings.tailMessage) {
+			throw new NodeOperationError(ctx.getNode(), 'Reply Range requires a Tail Message', {
+				itemIndex,
+			});
+		}
+		if (settings.counselorNumber) {
+			throw new NodeOperationError(
+				ctx.getNode(),
+				'Reply Range and Counselor Number cannot be used together',
+				{ itemIndex },
+			);
+		}
+		voiceOptions.replyRange = replyRange;
+	}
+
+	return voiceOptions;
+}
+
+async function getFaxFileIds(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	options: IDataObject,
+): Promise<string[]> {
+	const source = ctx.getNodeParameter('faxDocumentSource', itemIndex, 'fileIds') as string;
+
+	if (source === 'binary') {
+		const binaryPropertyNames = (
+			ctx.getNodeParameter('faxBinaryPropertyNames', itemIndex) as string
+		)
+			.split(',')
+			.map((name) => name.trim())
+			.filter((name) => name);
+		const fileIds: string[] = [];
+		for (const binaryPropertyName of binaryPropertyNames) {
+			const file = await getBinaryFile(ctx, itemIndex, binaryPropertyName);
+			if (options.dryRun === true) {
+				fileIds.push(`(binary: ${binaryPropertyName})`);
+				continue;
+			}
+			const uploaded = await uploadFile(ctx, file, 'DOCUMENT', itemIndex);
+			fileIds.push(uploaded.fileId as string);
+		}
+		return fileIds;
+	}
+
+	const value = ctx.getNodeParameter('faxFileIds', itemIndex, []) as string[] | string;
+	return (Array.isArray(value) ? value : String(value).split(','))
+		.map((fileId) => String(fileId).trim())
+		.filter((fileId) => fileId);
+}
+
+// 자동 모드는 90바이트를 넘으면 LMS, 이미지가 있으면 MMS로 보낸다
+function resolveTextMessageType(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	text: string,
+	hasImage: boolean,
+	messageType: string,
+	truncateToSms: boolean,
+): { type: string; text: string; byteLength: number; truncated: boolean } {
+	const fail = (message: string) => new NodeOperationError(ctx.getNode(), message, { itemIndex });
+
+	let type = messageType;
+	if (messageType === 'auto') {
+		type = hasImage ? 'MMS' : getByteLength(text) > SMS_MAX_BYTES ? 'LMS' : 'SMS';
+	}
+	if (type === 'MMS' && !hasImage) throw fail('MMS messages need an image');
+	if (type !== 'MMS' && hasImage) {
+		throw fail(`${type} messages cannot carry an image. Choose MMS or Auto.`);
+	}
+
+	let finalText = text;
+	if (truncateToSms && (type === 'SMS' || (messageType === 'auto' && type === 'LMS'))) {
+		type = 'SMS';
+		finalText = truncateToByteLength(text, SMS_MAX_BYTES);
+	}
+
+	const byteLength = getByteLength(finalText);
+	const maxBytes = type === 'SMS' ? SMS_MAX_BYTES : LMS_MAX_BYTES;
+	if (byteLength > maxBytes) {
+		throw fail(
+			type === 'SMS'
+				? `Text is ${byteLength} bytes, over the ${maxBytes}-byte SMS limit. Choose Auto or LMS, or turn on Truncate to SMS.`
+				: `Text is ${byteLength} bytes, over the ${maxBytes}-byte ${type} limit`,
+		);
+	}
+
+	return { type, text: finalText, byteLength, truncated: finalText !== text };
+}
+
+function parseJsonParameter(
+	ctx: IExecuteFunctions,
+	value: unknown,
+	label: string,
+	itemIndex: number,
+): unknown {
+	if (typeof value !== 'string') return value;
+	if (!value.trim()) return undefined;
+	try {
+		return JSON.parse(value);
+	} catch (error) {
+		throw new NodeOperationError(
+			ctx.getNode(),
+			`${label} is not valid JSON: ${(error as Error).message}`,
+			{ itemIndex },
+		);
+	}
+}
+
+function getRecipientEntries(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	mode: string,
+): Array<{ to: unknown; personalization: RecipientPersonalization }> {
+	const isObject = (value: unknown): value is IDataObject =>
+		!!value && typeof value === 'object' && !Array.isArray(value);
+	const toVariables = (source: IDataObject): Record<string, string> => {
+		const variables: Record<string, string> = {};
+		for (const [key, value] of Object.entries(source)) {
+			if (value === undefined || value === null) continue;
+			variables[toTemplateVariableKey(key)] = toVariableValue(ctx, key, value, itemIndex);
+		}
+		return variables;
+	};
+
+	if (mode === 'json') {
+		const parsed = parseJsonParameter(
+			ctx,
+			ctx.getNodeParameter('recipientsJson', itemIndex) as unknown,
+			'Recipients (JSON)',
+			itemIndex,
+		);
+		const list = parsed === undefined ? [] : Array.isArray(parsed) ? parsed : [parsed];
+		return list.map((entry, index) => {
+			const { to, text, variables, ...fields } = (isObject(entry) ? entry : {}) as IDataObject;
+			if (!isObject(entry) || (variables !== undefined && !isObject(variables))) {
+				throw new NodeOperationError(
+					ctx.getNode(),
+					`Recipient ${index + 1} in Recipients (JSON) must be an object with an optional variables object`,
+					{ itemIndex },
+				);
+			}
+			return {
+				to,
+				personalization: {
+					text: typeof text === 'string' ? text : undefined,
+					variables: toVariables({ ...fields, ...(variables as IDataObject | undefined) }),
 				},
-				default: 'sendText',
-				options: [
+			};
+		});
+	}
+
+	const collection = ctx.getNodeParameter('recipients', itemIndex, {}) as IDataObject;
+	return ((collection.recipient as IDataObject[]) || []).map((entry, index) => {
+		const variables = parseJsonParameter(
+			ctx,
+			entry.variablesJson,
+			`Variables (JSON) of recipient ${index + 1}`,
+			itemIndex,
+		);
+		if (variables !== undefined && !isObject(variables)) {
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`Variables (JSON) of recipient ${index + 1} must be an object of variable names and values`,
+				{ itemIndex },
+			);
+		}
+		return {
+			to: entry.to,
+			personalization: {
+				text: (entry.text as string) || undefined,
+				variables: variables ? toVariables(variables) : {},
+			},
+		};
+	});
+}
+
+function personalizeRcsMessage(
+	message: IDataObject,
+	personalization?: RecipientPersonalization,
+): IDataObject {
+	if (!personalization) return message;
+
+	if (message.text !== undefined || personalization.text) {
+		message.text = personalizeText((message.text as string) || '', personalization);
+		if (message.type === 'RCS_SMS' || message.type === 'RCS_LMS') {
+			message.type = (message.text as string).length > 100 ? 'RCS_LMS' : 'RCS_SMS';
+		}
+	}
+	const rcsOptions = message.rcsOptions as IDataObject;
+	if (rcsOptions.templateId && Object.keys(personalization.variables).length > 0) {
+		message.rcsOptions = {
+			...rcsOptions,
+			variables: { ...(rcsOptions.variables as IDataObject), ...personalization.variables },
+		};
+	}
+	return message;
+}
+
+// 같은 그룹을 여러 아이템이 쓰면 연락처는 한 번만 불러온다
+async function getContactGroupEntries(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	cache: RequestCache,
+): Promise<Array<{ to: unknown; personalization: RecipientPersonalization }>> {
+	const groupId = ctx.getNodeParameter('contactGroupId', itemIndex) as string;
+	const key = `contactGroup:${groupId}`;
+	if (!cache.has(key)) {
+		cache.set(
+			key,
+			solapiApiRequestAllItems(
+				ctx,
+				'contactList',
+				'/contacts/v1/contacts',
+				{ groupId },
+				undefined,
+				itemIndex,
+			),
+		);
+	}
+	const contacts = (await cache.get(key)) as IDataObject[];
+	if (contacts.length === 0) {
+		throw new NodeOperationError(ctx.getNode(), `Contact group ${groupId} has no contacts`, {
+			itemIndex,
+		});
+	}
+
+	return contacts.map((contact) => {
+		const variables: Record<string, string> = {};
+		for (const field of ['name', 'memo']) {
+			if (contact[field] === undefined || contact[field] === null) continue;
+			variables[toTemplateVariableKey(field)] = String(contact[field]);
+		}
+		return { to: contact.phoneNumber, personalization: { variables } };
+	});
+}
+
+async function buildSendMessages(
+	ctx: IExecuteFunctions,
+	operation: string,
+	itemIndex: number,
+	options: IDataObject,
+	requestCache: RequestCache,
+): Promise<PreparedMessages> {
+	if (options.checkSenderId === true) {
+		const from = ctx.getNodeParameter(
+			operation.startsWith('sendKakao') ? 'fromForKakao' : 'from',
+			itemIndex,
+			'',
+		) as string;
+		if (from) await assertSenderIdUsable(ctx, from, itemIndex, requestCache);
+	}
+
+	const country = (ctx.getNodeParameter('country', itemIndex, '82') as string) || '82';
+	const mode = ctx.getNodeParameter('recipientsInputMode', itemIndex, 'list') as string;
+	const personalizations: Personalizations = new Map();
+	let recipients: string[] = [];
+	let invalid: InvalidRecipient[] = [];
+
+	if (mode === 'list') {
+		({ recipients, invalid } = parseRecipients(
+			ctx.getNodeParameter('to', itemIndex) as unknown,
+			country,
+		));
+	} else {
+		const entries =
+			mode === 'contactGroup'
+				? await getContactGroupEntries(ctx, itemIndex, requestCache)
+				: getRecipientEntries(ctx, itemIndex, mode);
+		entries.forEach((entry, index) => {
+			const parsed = parseRecipients(entry.to, country);
+			invalid.push(...parsed.invalid);
+			if (parsed.recipients.length === 0 && parsed.invalid.length === 0) {
+				invalid.push({ to: '', reason: `Recipient ${index + 1} has no phone number` });
+			}
+			for (const to of parsed.recipients) {
+				// 같은 번호가 여러 번 나오면 처음 입력한 값을 쓴다
+				if (personalizations.has(to)) continue;
+				personalizations.set(to, entry.personalization);
+				recipients.push(to);
+			}
+		});
+	}
+
+	if (recipients.length === 0 && invalid.length === 0) {
+		throw new NodeOperationError(ctx.getNode(), 'Enter at least one recipient in To', {
+			itemIndex,
+		});
+	}
+
+	// 유효한 수신번호가 없으면 메시지를 만들지 않고 잘못된 번호만 결과로 남긴다
+	const prepared: PreparedMessages =
+		recipients.length > 0
+			? await buildOperationMessages(
+					ctx,
+					operation,
+					itemIndex,
+					options,
+					requestCache,
+					recipients,
+					personalizations,
+				)
+			: { messages: [] };
+	if (invalid.length > 0) prepared.invalidRecipients = invalid;
+	return prepared;
+}
+
+async function buildOperationMessages(
+	ctx: IExecuteFunctions,
+	operation: string,
+	itemIndex: number,
+	options: IDataObject,
+	requestCache: RequestCache,
+	recipients: string[],
+	personalizations: Personalizations,
+): Promise<PreparedMessages> {
+	if (operation === 'sendText') {
+		const from = ctx.getNodeParameter('from', itemIndex) as string;
+		const text = ctx.getNodeParameter('text', itemIndex) as string;
+		const subject = ctx.getNodeParameter('subject', itemIndex, '') as string;
+		const imageId =
+			(await uploadImageFromBinary(ctx, options, 'MMS', itemIndex)) ||
+			(ctx.getNodeParameter('imageId', itemIndex, '') as string);
+		const country = (ctx.getNodeParameter('country', itemIndex, '82') as string) || '82';
+
+		const messageType = ctx.getNodeParameter('messageType', itemIndex, 'auto') as string;
+
+		// 수신자별 본문마다 타입과 바이트 길이를 따로 계산한다
+		const detailsByText = new Map<string, { text: string; details: IDataObject }>();
+		const messageDetails: IDataObject[] = [];
+		const messages = recipients.map((to) => {
+			const recipientText = personalizeText(text, personalizations.get(to));
+			let sized = detailsByText.get(recipientText);
+			if (!sized) {
+				const resolved = resolveTextMessageType(
+					ctx,
+					itemIndex,
+					recipientText,
+					!!imageId,
+					messageType,
+					options.truncateToSms === true,
+				);
+				const details: IDataObject = {
+					messageType: resolved.type,
+					byteLength: resolved.byteLength,
+				};
+				if (resolved.truncated) details.truncated = true;
+				sized = { text: resolved.text, details };
+				detailsByText.set(recipientText, sized);
+			}
+			messageDetails.push(sized.details);
+
+			const msg: IDataObject = {
+				to,
+				from,
+				country,
+				text: sized.text,
+				type: sized.details.messageType,
+			};
+			if (subject) msg.subject = subject;
+			if (imageId) msg.imageId = imageId;
+			return msg;
+		});
+
+		if (detailsByText.size === 1) {
+			return { messages, details: messageDetails[0] };
+		}
+		const messageTypes: IDataObject = {};
+		for (const details of messageDetails) {
+			const type = details.messageType as string;
+			messageTypes[type] = ((messageTypes[type] as number) || 0) + 1;
+		}
+		return { messages, details: { messageTypes }, messageDetails };
+	}
+
+	if (operation === 'sendKakaoATA') {
+		const channelId = ctx.getNodeParameter('channelId', itemIndex) as string;
+		const templateId = ctx.getNodeParameter('templateId', itemIndex) as string;
+		const from = ctx.getNodeParameter('fromForKakao', itemIndex, '') as string;
+		const country = (ctx.getNodeParameter('country', itemIndex, '82') as string) || '82';
+
+		const template = await getSendableTemplate(ctx, channelId, templateId, itemIndex, requestCache);
+		if (!template) {
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`Template ${templateId} is not sendable on the selected Kakao channel`,
+				{ itemIndex },
+			);
+		}
+
+		const content = (template.content as string) || '';
+		const templateVariables = (template.variables as IDataObject[] | undefined) || [];
+		const requiredVariables = [
+			...new Set([
+				...templateVariables.map((v) => toTemplateVariableKey((v.name as string) || '')),
+				...extractTemplateVariables(content),
+			]),
+		].filter((key) => key !== '#{}');
+		const variables = collectTemplateVariables(ctx, itemIndex, requiredVariables);
+		const recipientVariables = recipients.map((to) => ({
+			...variables,
+			...personalizations.get(to)?.variables,
+		}));
+		const missingVariables = requiredVariables.filter((key) =>
+			recipientVariables.some((values) => !String(values[key] ?? '').trim()),
+		);
+		if (missingVariables.length > 0) {
+			if (options.onMissingVariables === 'skip') {
+				return {
+					messages: [],
+					skipped: { skipped: true, templateId, missingVariables },
+				};
+			}
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`Missing values for template variables: ${missingVariables.join(', ')}`,
+				{ itemIndex },
+			);
+		}
+		const disableSms = !from;
+		const kakaoOptions: IDataObject = { pfId: channelId, templateId, disableSms };
+		const buttons = getKakaoButtons(ctx, itemIndex, 'kakaoButtons', 'button');
+		if (buttons) kakaoOptions.buttons = buttons;
+		const quickReplies = getKakaoButtons(ctx, itemIndex, 'kakaoQuickReplies', 'quickReply');
+		if (quickReplies) kakaoOptions.quickReplies = quickReplies;
+
+		const messages = recipients.map((to, index) => {
+			const values = recipientVariables[index];
+			const msg: IDataObject = {
+				to,
+				country,
+				kakaoOptions:
+					Object.keys(values).length > 0 ? { ...kakaoOptions, variables: values } : kakaoOptions,
+			};
+			if (from) msg.from = from;
+			return msg;
+		});
+
+		return {
+			messages,
+			texts: recipientVariables.map((values) => renderTemplate(content, values)),
+		};
+	}
+
+	if (operation === 'sendKakaoCTA') {
+		const channelId = ctx.getNodeParameter('channelId', itemIndex) as string;
+		const friendTalkType = ctx.getNodeParameter('friendTalkType', itemIndex, 'basic') as string;
+		const text = ctx.getNodeParameter('text', itemIndex, '') as string;
+		const from = ctx.getNodeParameter('fromForKakao', itemIndex, '') as string;
+		const adFlag = ctx.getNodeParameter('adFlag', itemIndex, false) as boolean;
+		const bms =
+			friendTalkType === 'basic'
+				? undefined
+				: await buildBrandMessage(ctx, itemIndex, friendTalkType, options);
+		const kakaoImageId = bms
+			? ''
+			: (await uploadImageFromBinary(ctx, options, 'KAKAO', itemIndex)) ||
+				(ctx.getNodeParameter('kakaoImageId', itemIndex, '') as string);
+		const country = (ctx.getNodeParameter('country', itemIndex, '82') as string) || '82';
+		const buttons =
+			getKakaoButtons(ctx, itemIndex, 'kakaoButtons', 'button') ??
+			getLegacyKakaoButtons(ctx, itemIndex);
+		const quickReplies = getKakaoButtons(ctx, itemIndex, 'kakaoQuickReplies', 'quickReply');
+
+		const disableSms = !from;
+		const kakaoOptions: IDataObject = { pfId: channelId, disableSms, adFlag };
+		if (kakaoImageId) kakaoOptions.imageId = kakaoImageId;
+		if (buttons) kakaoOptions.buttons = buttons;
+		if (quickReplies) kakaoOptions.quickReplies = quickReplies;
+		if (bms) kakaoOptions.bms = bms;
+
+		const messages = recipients.map((to) => {
+			const msg: IDataObject = { to, country, kakaoOptions };
+			const recipientText = personalizeText(text, personalizations.get(to));
+			if (recipientText) msg.text = recipientText;
+			if (bms) msg.type = `BMS_${bms.chatBubbleType}`;
+			if (from) msg.from = from;
+			return msg;
+		});
+
+		return { messages };
+	}
+
+	if (operation === 'sendRcs') {
+		const from = ctx.getNodeParameter('from', itemIndex) as string;
+		const country = (ctx.getNodeParameter('country', itemIndex, '82') as string) || '82';
+		const rcsMessage = await buildRcsMessage(ctx, itemIndex, options);
+
+		const messages = recipients.map((to) =>
+			personalizeRcsMessage({ ...rcsMessage, to, from, country }, personalizations.get(to)),
+		);
+
+		return { messages };
+	}
+
+	if (operation === 'sendVoice') {
+		const from = ctx.getNodeParameter('from', itemIndex) as string;
+		const text = ctx.getNodeParameter('text', itemIndex) as string;
+		const country = (ctx.getNodeParameter('country', itemIndex, '82') as string) || '82';
+		const voiceOptions = buildVoiceOptions(ctx, itemIndex);
+
+		const messages = recipients.map((to) => ({
+			to,
+			from,
+			country,
+			text: personalizeText(text, personalizations.get(to)),
+			type: 'VOICE',
+			voiceOptions,
+		}));
+
+		return { messages };
+	}
+
+	if (operation === 'sendFax') {
+		const from = ctx.getNodeParameter('from', itemIndex) as string;
+		const country = (ctx.getNodeParameter('country', itemIndex, '82') as string) || '82';
+		const fileIds = await getFaxFileIds(ctx, itemIndex, options);
+		if (fileIds.length === 0) {
+			throw new NodeOperationError(ctx.getNode(), 'Fax messages need at least one document', {
+				itemIndex,
+			});
+		}
+
+		const messages = recipients.map((to) => ({
+			to,
+			from,
+			country,
+			type: 'FAX',
+			faxOptions: { fileIds },
+		}));
+
+		return { messages };
+	}
+
+	throw new NodeOperationError(ctx.getNode(), 'Unsupported operation', { itemIndex });
+}
+
+async function addMessagesFromItems(
+	ctx: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[] = [];
+	const groups = new Map<
+		string,
+		{ messages: IDataObject[]; itemIndexes: number[]; invalidRecipients: InvalidRecipient[] }
+	>();
+
+	for (let i = 0; i < items.length; i++) {
+		try {
+			const groupId = ctx.getNodeParameter('groupId', i) as string;
+			const messageInput = ctx.getNodeParameter('messageInput', i) as string;
+
+			let messages: IDataObject[];
+			let invalidRecipients: InvalidRecipient[] = [];
+			if (messageInput === 'json') {
+				const raw = ctx.getNodeParameter('messagesJson', i) as unknown;
+				let parsed: unknown = raw;
+				if (typeof raw === 'string') {
+					try {
+						parsed = JSON.parse(raw);
+					} catch {
+						throw new NodeOperationError(ctx.getNode(), 'Messages (JSON) must be valid JSON', {
+							itemIndex: i,
+						});
+					}
+				}
+				messages = (Array.isArray(parsed) ? parsed : [parsed]) as IDataObject[];
+				if (messages.some((m) => !m || typeof m !== 'object' || Array.isArray(m))) {
+					throw new NodeOperationError(
+						ctx.getNode(),
+						'Messages (JSON) must be a message object or an array of message objects',
+						{ itemIndex: i },
+					);
+				}
+			} else {
+				const from = ctx.getNodeParameter('from', i) as string;
+				const text = ctx.getNodeParameter('text', i) as string;
+				const subject = ctx.getNodeParameter('subject', i, '') as string;
+				const country = (ctx.getNodeParameter('country', i, '82') as string) || '82';
+				const parsed = parseRecipients(ctx.getNodeParameter('to', i) as unknown, country);
+				invalidRecipients = parsed.invalid;
+				messages = parsed.recipients.map((to) => {
+					const msg: IDataObject = { to, from, country, text };
+					if (subject) msg.subject = subject;
+					return msg;
+				});
+			}
+
+			if (messages.length === 0 && invalidRecipients.length === 0) {
+				throw new NodeOperationError(ctx.getNode(), 'No messages to add', { itemIndex: i });
+			}
+
+			const group = groups.get(groupId) ?? {
+				messages: [],
+				itemIndexes: [],
+				invalidRecipients: [],
+			};
+			group.messages.push(...messages);
+			group.invalidRecipients.push(...invalidRecipients);
+			group.itemIndexes.push(i);
+			groups.set(groupId, group);
+		} catch (error) {
+			if (ctx.continueOnFail()) {
+				returnData.push({ json: { error: (error as Error).message }, pairedItem: i });
+				continue;
+			}
+			throw error;
+		}
+	}
+
+	for (const [groupId, group] of groups) {
+		const pairedItem = group.itemIndexes.map((item) => ({ item }));
+		try {
+			const resultList = await addMessagesToGroup(
+				ctx,
+				groupId,
+				group.messages,
+				group.itemIndexes[0],
+			);
+			const errorCount = resultList.filter((m) => String(m.statusCode) !== '2000').length;
+			const json: IDataObject = { groupId, errorCount, resultList };
+			if (group.invalidRecipients.length > 0) json.invalidRecipients = group.invalidRecipients;
+			returnData.push({ json, pairedItem });
+		} catch (error) {
+			if (ctx.continueOnFail()) {
+				returnData.push({ json: { groupId, error: (error as Error).message }, pairedItem });
+				continue;
+			}
+			throw error;
+		}
+	}
+
+	return returnData;
+}
+
+export class Solapi implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Solapi',
+		name: 'solapi',
+		icon: 'file:solapi.svg',
+		group: ['output'],
+		version: [1, 1.1],
+		defaultVersion: 1.1,
+		description: 'Send messages with Solapi',
+		defaults: {
+			name: 'Solapi',
+		},
+		inputs: [NodeConnectionType.Main],
+		outputs: `={{(${configuredOutputs})($parameter)}}`,
+		usableAsTool: true,
+		credentials: [
+			{
+				name: 'solapiOAuth2Api',
+				required: true,
+				displayOptions: {
+					show: {
+						authentication: ['oAuth2'],
+					},
+				},
+			},
+			{
+				name: 'solapiApiKeyApi',
+				required: true,
+				displayOptions: {
+					show: {
+						authentication: ['apiKey'],
+					},
+				},
+			},
+		],
+		properties: [
+			{
+				displayName: 'Authentication',
+				name: 'authentication',
+				type: 'options',
+				default: 'oAuth2',
+				options: [
+					{ name: 'OAuth2', value: 'oAuth2' },
+					{ name: 'API Key (HMAC-SHA256)', value: 'apiKey' },
+				],
+			},
+			{
+				displayName: 'Resource',
+				name: 'resource',
+				type: 'options',
+				noDataExpression: true,
+				default: 'message',
+				options: [
+					{
+						name: 'Account',
+						value: 'account',
+					},
+					{
+						name: 'Commerce Hook',
+						value: 'commerceHook',
+					},
+					{
+						name: 'Contact',
+						value: 'contact',
+					},
+					{
+						name: 'Contact Group',
+						value: 'contactGroup',
+					},
+					{
+						name: 'Kakao Template',
+						value: 'kakaoTemplate',
+					},
+					{
+						name: 'Message',
+						value: 'message',
+					},
+					{
+						name: 'Message Group',
+						value: 'messageGroup',
+					},
+					{
+						name: 'Sender ID',
+						value: 'senderId',
+					},
+					{
+						name: 'Storage',
+						value: 'storage',
+					},
+				],
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['message'],
+					},
+				},
+				default: 'sendText',
+				options: [
+					{
+						name: 'Cancel Scheduled Group',
+						value: 'cancelScheduledGroup',
+						description: 'Cancel the reservation of a scheduled message group',
+						action: 'Cancel a scheduled group',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get a sent message and its delivery status',
+						action: 'Get a message',
+					},
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						description: 'Get many messages from the message history',
+						action: 'Get many messages',
+					},
+					{
+						name: 'Get Scheduled Groups',
+						value: 'getScheduledGroups',
+						description: 'List message groups that are waiting to be sent',
+						action: 'Get scheduled groups',
+					},
+					{
+						name: 'Reschedule Group',
+						value: 'rescheduleGroup',
+						description: 'Change the send time of a scheduled message group',
+						action: 'Reschedule a group',
+					},
+					{
+						name: 'Send Fax',
+						value: 'sendFax',
+						description: 'Send uploaded documents by fax',
+						action: 'Send fax a message',
+					},
 					{
 						name: 'Send Kakao AlimTalk',
 						value: 'sendKakaoATA',
@@ -91,27 +1755,51 @@ export class Solapi implements INodeType {
 						value: 'sendKakaoCTA',
 						action: 'Send kakao friend talk a message',
 					},
+					{
+						name: 'Send RCS Message',
+						value: 'sendRcs',
+						description: 'Send an RCS message with optional SMS fallback',
+						action: 'Send RCS message a message',
+					},
 					{
 						name: 'Send Text Message',
 						value: 'sendText',
 						description: 'Send SMS/LMS/MMS via Solapi',
 						action: 'Send text message a message',
 					},
+					{
+						name: 'Send Voice Message',
+						value: 'sendVoice',
+						description: 'Call the recipient and read the text aloud',
+						action: 'Send voice message a message',
+					},
 				],
 			},
+			...recipientFields,
 			// Common: To
 			{
 				displayName: 'To',
 				name: 'to',
 				type: 'string',
 				placeholder: '01012341234,01056785678',
-				description: 'Enter multiple phone numbers separated by commas',
+				description:
+					'Phone numbers separated by commas or new lines, or an expression returning an array. Hyphens, spaces and +82 prefixes are normalized and duplicates are removed.',
 				required: true,
 				displayOptions: {
 					show: {
-						operation: ['sendText', 'sendKakaoATA', 'sendKakaoCTA'],
+						operation: [
+							'sendText',
+							'sendKakaoATA',
+							'sendKakaoCTA',
+							'sendRcs',
+							'sendVoice',
+							'sendFax',
+						],
 						resource: ['message'],
 					},
+					hide: {
+						recipientsInputMode: ['contactGroup', 'fields', 'json'],
+					},
 				},
 				default: '',
 			},
@@ -127,7 +1815,7 @@ export class Solapi implements INodeType {
 				},
 				displayOptions: {
 					show: {
-						operation: ['sendText'],
+						operation: ['sendText', 'sendRcs', 'sendVoice', 'sendFax'],
 						resource: ['message'],
 					},
 				},
@@ -140,9 +1828,12 @@ export class Solapi implements INodeType {
 				required: true,
 				displayOptions: {
 					show: {
-						operation: ['sendText', 'sendKakaoCTA'],
+						operation: ['sendText', 'sendKakaoCTA', 'sendVoice'],
 						resource: ['message'],
 					},
+					hide: {
+						friendTalkType: ['carouselCommerce', 'carouselFeed', 'wideItemList'],
+					},
 				},
 				default: '',
 			},
@@ -158,6 +1849,26 @@ export class Solapi implements INodeType {
 				},
 				default: '',
 			},
+			{
+				displayName: 'Message Type',
+				name: 'messageType',
+				type: 'options',
+				description:
+					'Auto picks SMS up to 90 bytes, LMS up to 2,000 bytes and MMS when an image is attached',
+				displayOptions: {
+					show: {
+						operation: ['sendText'],
+						resource: ['message'],
+					},
+				},
+				options: [
+					{ name: 'Auto', value: 'auto' },
+					{ name: 'LMS', value: 'LMS' },
+					{ name: 'MMS', value: 'MMS' },
+					{ name: 'SMS', value: 'SMS' },
+				],
+				default: 'auto',
+			},
 			{
 				displayName: 'Image ID (Optional) Name or ID',
 				name: 'imageId',
@@ -181,7 +1892,14 @@ export class Solapi implements INodeType {
 				default: '82',
 				displayOptions: {
 					show: {
-						operation: ['sendText', 'sendKakaoATA', 'sendKakaoCTA'],
+						operation: [
+							'sendText',
+							'sendKakaoATA',
+							'sendKakaoCTA',
+							'sendRcs',
+							'sendVoice',
+							'sendFax',
+						],
 						resource: ['message'],
 					},
 				},
@@ -211,12 +1929,42 @@ export class Solapi implements INodeType {
 				typeOptions: { loadOptionsMethod: 'getKakaoTpls', loadOptionsDependsOn: ['channelId'] },
 				default: '',
 			},
+			{
+				displayName: 'Variables Input Mode',
+				name: 'variablesInputMode',
+				type: 'options',
+				displayOptions: {
+					show: { operation: ['sendKakaoATA'], resource: ['message'] },
+				},
+				options: [
+					{
+						name: 'Fields',
+						value: 'fields',
+						description: 'Enter each variable below',
+					},
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'Pass an object of variable names and values',
+					},
+					{
+						name: 'Map From Input Item',
+						value: 'item',
+						description: 'Read each template variable from the input field of the same name',
+					},
+				],
+				default: 'fields',
+			},
 			{
 				displayName: 'Template Variables',
 				name: 'variables',
 				type: 'fixedCollection',
 				displayOptions: {
-					show: { operation: ['sendKakaoATA'], resource: ['message'] },
+					show: {
+						operation: ['sendKakaoATA'],
+						resource: ['message'],
+						variablesInputMode: ['fields'],
+					},
 				},
 				typeOptions: { multipleValues: true },
 				options: [
@@ -246,6 +1994,37 @@ export class Solapi implements INodeType {
 				],
 				default: {},
 			},
+			{
+				displayName: 'Template Variables (JSON)',
+				name: 'variablesJson',
+				type: 'json',
+				placeholder: '{"name": "Hong Gildong", "orderId": "A-1001"}',
+				description: 'Object of variable names and values. Names may be given with or without #{}.',
+				displayOptions: {
+					show: {
+						operation: ['sendKakaoATA'],
+						resource: ['message'],
+						variablesInputMode: ['json'],
+					},
+				},
+				default: '',
+			},
+			{
+				displayName: 'Source Field',
+				name: 'variablesSourceField',
+				type: 'string',
+				placeholder: 'customer',
+				description:
+					'Dot-notation path of the input field holding the variables. Leave empty to read them from the top level of the item.',
+				displayOptions: {
+					show: {
+						operation: ['sendKakaoATA'],
+						resource: ['message'],
+						variablesInputMode: ['item'],
+					},
+				},
+				default: '',
+			},
 			{
 				displayName: 'From (Text Replacement Sender, Optional) Name or ID',
 				name: 'fromForKakao',
@@ -276,255 +2055,1372 @@ export class Solapi implements INodeType {
 				description: 'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
 				typeOptions: { loadOptionsMethod: 'getKakaoImages' },
 				displayOptions: {
-					show: { operation: ['sendKakaoCTA'], resource: ['message'] },
+					show: { operation: ['sendKakaoCTA'], resource: ['message'], friendTalkType: ['basic'] },
 				},
 				default: '',
 			},
+			...kakaoBrandMessageFields,
 			{
 				displayName: 'Buttons (JSON Array)',
 				name: 'buttonsJson',
 				type: 'string',
 				description: 'Example: [{"buttonName":"Homepage","buttonType":"WL","linkMo":"https://example.com"}]',
 				displayOptions: {
-					show: { operation: ['sendKakaoCTA'], resource: ['message'] },
+					show: { operation: ['sendKakaoCTA'], resource: ['message'], '@version': [1] },
 				},
 				default: '',
 			},
-		],
-	};
+			kakaoButtonsField(
+				'kakaoButtons',
+				{
+					show: { operation: ['sendKakaoATA', 'sendKakaoCTA'], resource: ['message'] },
+					hide: { friendTalkType: ['carouselCommerce', 'carouselFeed'] },
+				},
+				'Up to 5 buttons. AlimTalk buttons must match the buttons of the template.',
+			),
+			kakaoQuickRepliesField(
+				'kakaoQuickReplies',
+				{ show: { operation: ['sendKakaoATA', 'sendKakaoCTA'], resource: ['message'] } },
+				'Up to 10 quick replies',
+			),
+			...rcsFields,
+			...voiceFields,
+			...faxFields,
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						operation: [
+							'sendText',
+							'sendKakaoATA',
+							'sendKakaoCTA',
+							'sendRcs',
+							'sendVoice',
+							'sendFax',
+						],
+						resource: ['message'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Batch Across Items',
+						name: 'batching',
+						type: 'boolean',
+						description:
+							'Whether to collect the messages of all input items and send them in as few requests as possible. Send At and output settings are taken from the first item.',
+						default: false,
+					},
+					{
+						displayName: 'Batch Concurrency',
+						name: 'concurrency',
+						type: 'number',
+						description: 'How many batch requests to run at the same time',
+						typeOptions: { minValue: 1, maxValue: 10 },
+						default: 1,
+					},
+					{
+						displayName: 'Batch Size',
+						name: 'batchSize',
+						type: 'number',
+						description: 'Max number of messages per request when batching across items',
+						typeOptions: { minValue: 1, maxValue: SOLAPI_MESSAGES_PER_REQUEST },
+						default: SOLAPI_MESSAGES_PER_REQUEST,
+					},
+					{
+						displayName: 'Check Sender ID',
+						name: 'checkSenderId',
+						type: 'boolean',
+						description:
+							'Whether to check that the sender number is active and not expired before sending, and stop with an error otherwise',
+						default: false,
+					},
+					{
+						displayName: 'Dry Run',
+						name: 'dryRun',
+						type: 'boolean',
+						description:
+							'Whether to only return the final text and byte length of each message instead of sending',
+						default: false,
+					},
+					{
+						displayName: 'Failed Messages Output',
+						name: 'failedOutput',
+						type: 'boolean',
+						description:
+							'Whether to route the messages Solapi rejected to a separate Failed output, one item per message',
+						default: false,
+					},
+					{
+						displayName: 'Image Binary Field',
+						name: 'imageBinaryPropertyName',
+						type: 'string',
+						placeholder: 'data',
+						description:
+							'Name of an input binary field holding an image to upload and attach before sending. Replaces the selected image. Not used for AlimTalk, wide item list or carousel messages.',
+						default: '',
+					},
+					{
+						displayName: 'Minimum Balance',
+						name: 'minimumBalance',
+						type: 'number',
+						description:
+							'Stop with an error before sending when the estimated cost would leave less than this amount of cash and points. Uses the unit prices of the account.',
+						typeOptions: { minValue: 0 },
+						default: 0,
+					},
+					{
+						displayName: 'Missing Template Variables',
+						name: 'onMissingVariables',
+						type: 'options',
+						description: 'What to do when an AlimTalk template variable has no value',
+						options: [
+							{
+								name: 'Stop With Error',
+								value: 'error',
+							},
+							{
+								name: 'Skip Item',
+								value: 'skip',
+								description: 'Do not send and output the missing variables instead',
+							},
+						],
+						default: 'error',
+					},
+					{
+						displayName: 'Output Mode',
+						name: 'outputMode',
+						type: 'options',
+						options: [
+							{
+								name: 'Raw Response',
+								value: 'response',
+								description: 'Output the Solapi response as a single item',
+							},
+							{
+								name: 'One Item per Message',
+								value: 'perMessage',
+								description:
+									'Output one item per message with to, messageId, statusCode, statusMessage and type',
+							},
+						],
+						default: 'response',
+					},
+					{
+						displayName: 'Send At',
+						name: 'sendAt',
+						type: 'dateTime',
+						description: 'When to send the messages. Leave empty to send immediately.',
+						default: '',
+					},
+					{
+						displayName: 'Timezone',
+						name: 'timezone',
+						type: 'string',
+						placeholder: 'Asia/Seoul',
+						description:
+							'Timezone used to read Send At when it has no offset. Defaults to the workflow timezone.',
+						default: '',
+					},
+					{
+						displayName: 'Truncate to SMS',
+						name: 'truncateToSms',
+						type: 'boolean',
+						description:
+							'Whether to cut text messages over 90 bytes so they are sent as SMS instead of LMS. Applies when Message Type is Auto or SMS without an image.',
+						default: false,
+					},
+				],
+			},
+			// Scheduled group fields
+			{
+				displayName: 'Group ID',
+				name: 'groupId',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['cancelScheduledGroup', 'rescheduleGroup'],
+						resource: ['message'],
+					},
+				},
+				default: '',
+			},
+			{
+				displayName: 'Send At',
+				name: 'sendAt',
+				type: 'dateTime',
+				required: true,
+				description: 'New send time of the group',
+				displayOptions: {
+					show: { operation: ['rescheduleGroup'], resource: ['message'] },
+				},
+				default: '',
+			},
+			{
+				displayName: 'Timezone',
+				name: 'timezone',
+				type: 'string',
+				placeholder: 'Asia/Seoul',
+				description:
+					'Timezone used to read Send At when it has no offset. Defaults to the workflow timezone.',
+				displayOptions: {
+					show: { operation: ['rescheduleGroup'], resource: ['message'] },
+				},
+				default: '',
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				description: 'Whether to return all results or only up to a given limit',
+				displayOptions: {
+					show: { operation: ['getAll', 'getScheduledGroups'], resource: ['message'] },
+				},
+				default: false,
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				description: 'Max number of results to return',
+				typeOptions: { minValue: 1 },
+				displayOptions: {
+					show: {
+						operation: ['getAll', 'getScheduledGroups'],
+						resource: ['message'],
+						returnAll: [false],
+					},
+				},
+				default: 50,
+			},
+			// Message history fields
+			{
+				displayName: 'Message ID',
+				name: 'messageId',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: { operation: ['get'], resource: ['message'] },
+				},
+				default: '',
+			},
+			{
+				displayName: 'Filters',
+				name: 'filters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				displayOptions: {
+					show: { operation: ['getAll'], resource: ['message'] },
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Date Type',
+						name: 'dateType',
+						type: 'options',
+						description: 'Which date the date range applies to',
+						options: [
+							{ name: 'Created', value: 'CREATED' },
+							{ name: 'Updated', value: 'UPDATED' },
+						],
+						default: 'CREATED',
+					},
+					{
+						displayName: 'End Date',
+						name: 'endDate',
+						type: 'dateTime',
+						default: '',
+					},
+					{
+						displayName: 'From',
+						name: 'from',
+						type: 'string',
+						description: 'Sender number',
+						default: '',
+					},
+					{
+						displayName: 'Group ID',
+						name: 'groupId',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Message ID',
+						name: 'messageId',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Start Date',
+						name: 'startDate',
+						type: 'dateTime',
+						default: '',
+					},
+					{
+						displayName: 'Status Code',
+						name: 'statusCode',
+						type: 'string',
+						placeholder: '4000',
+						description: 'Solapi status code, e.g. 4000 for delivered messages',
+						default: '',
+					},
+					{
+						displayName: 'To',
+						name: 'to',
+						type: 'string',
+						description: 'Recipient number',
+						default: '',
+					},
+					{
+						displayName: 'Type',
+						name: 'type',
+						type: 'options',
+						options: [
+							{ name: 'Fax', value: 'FAX' },
+							{ name: 'Kakao AlimTalk (ATA)', value: 'ATA' },
+							{ name: 'Kakao FriendTalk (CTA)', value: 'CTA' },
+							{ name: 'Kakao FriendTalk Image (CTI)', value: 'CTI' },
+							{ name: 'LMS', value: 'LMS' },
+							{ name: 'MMS', value: 'MMS' },
+							{ name: 'SMS', value: 'SMS' },
+							{ name: 'Voice', value: 'VOICE' },
+						],
+						default: 'SMS',
+					},
+				],
+			},
+			...messageGroupOperations,
+			...messageGroupFields,
+			...storageOperations,
+			...storageFields,
+			...kakaoTemplateOperations,
+			...kakaoTemplateFields,
+			...senderIdOperations,
+			...senderIdFields,
+			...accountOperations,
+			...accountFields,
+			...contactOperations,
+			...contactFields,
+			...contactGroupOperations,
+			...contactGroupFields,
+			...commerceHookOperations,
+			...commerceHookFields,
+		],
+	};
+
+	methods = {
+		loadOptions: {
+			async getActiveSenderIds(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const res = await solapiApiRequest(
+					this,
+					'GET',
+					'/senderid/v1/numbers/active',
+				);
+				let list: unknown = res;
+				if (typeof list === 'string') {
+					try {
+						list = JSON.parse(list);
+					} catch {}
+				}
+				const arr = Array.isArray(list) ? (list as unknown[]) : [];
+				return arr
+					.filter((v) => typeof v === 'string' && (v as string).trim())
+					.map((num) => ({ name: num as string, value: num as string }));
+			},
+			async getMmsImages(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const res = (await solapiApiRequest(
+					this,
+					'GET',
+					'/storage/v1/files',
+					undefined,
+					{ type: 'MMS', limit: 500 },
+				)) as { fileList?: Array<{ fileId?: string; name?: string }> };
+				const list = res?.fileList || [];
+				return list.map((f) => ({ name: f.name || f.fileId || '', value: f.fileId || '' }));
+			},
+			async getCommerceHooks(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const hooks = await solapiApiRequestAllItems(this, 'hookList', '/commerce/v1/hooks');
+				return hooks.map((h) => ({
+					name: `${h.name || h.hookId}`,
+					value: (h.hookId as string) || '',
+				}));
+			},
+			async getContactGroups(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const groups = await solapiApiRequestAllItems(this, 'groupList', '/contacts/v1/groups');
+				return groups.map((g) => ({
+					name: `${g.name || g.groupId}`,
+					value: (g.groupId as string) || '',
+				}));
+			},
+			async getFaxDocuments(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const res = (await solapiApiRequest(
+					this,
+					'GET',
+					'/storage/v1/files',
+					undefined,
+					{ type: 'DOCUMENT', limit: 500 },
+				)) as { fileList?: Array<{ fileId?: string; name?: string }> };
+				const list = res?.fileList || [];
+				return list.map((f) => ({ name: f.name || f.fileId || '', value: f.fileId || '' }));
+			},
+			async getKakaoImages(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const res = (await solapiApiRequest(
+					this,
+					'GET',
+					'/storage/v1/files',
+					undefined,
+					{ type: 'KAKAO', limit: 500 },
+				)) as { fileList?: Array<{ fileId?: string; name?: string }> };
+				const list = res?.fileList || [];
+				return list.map((f) => ({ name: f.name || f.fileId || '', value: f.fileId || '' }));
+			},
+			async getKakaoChannels(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const res = (await solapiApiRequest(
+					this,
+					'GET',
+					'/kakao/v2/channels',
+					undefined,
+					{ limit: 200 },
+				)) as { channelList?: Array<{ channelId?: string; searchId: string; channelName?: string }> };
+				const list = res?.channelList || [];
+				return list.map((c) => ({ name: `${c.channelName || c.searchId || c.channelId}`, value: c.channelId || '' }));
+			},
+			async getKakaoTpls(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const pfId = (this.getCurrentNodeParameter('channelId') as string) || '';
+				if (!pfId) return [];
+				const res = (await solapiApiRequest(
+					this,
+					'GET',
+					'/kakao/v1/templates/sendable',
+					undefined,
+					{ pfId },
+				)) as Array<{ templateId?: string; name?: string; variables?: Array<{ name?: string }> }>;
+				return (res || []).map((t) => ({ name: `${t.name}`, value: t.templateId || '', description: t.variables && t.variables.length > 0 ? `vars: ${t.variables.map(v => v.name).join(', ')}` : undefined }));
+			},
+			async getKakaoTemplateCategories(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const res = (await solapiApiRequest(
+					this,
+					'GET',
+					'/kakao/v2/templates/categories',
+				)) as Array<{ code?: string; name?: string }>;
+				return (Array.isArray(res) ? res : []).map((c) => ({
+					name: c.name || c.code || '',
+					value: c.code || '',
+				}));
+			},
+			async getKakaoTplVariables(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const pfId = (this.getCurrentNodeParameter('channelId') as string) || '';
+				const templateId = (this.getCurrentNodeParameter('templateId') as string) || '';
+				if (!pfId || !templateId) return [];
+				const res = (await solapiApiRequest(
+					this,
+					'GET',
+					'/kakao/v1/templates/sendable',
+					undefined,
+					{ pfId },
+				)) as Array<{ templateId?: string; variables?: Array<{ name?: string }> }>;
+				const found = (res || []).find(t => t.templateId === templateId);
+				const vars = found?.variables || [];
+				return vars.map(v => ({ name: v.name || '', value: v.name || '' }));
+			},
+			async getRcsBrands(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const res = (await solapiApiRequest(
+					this,
+					'GET',
+					'/rcs/v1/brands',
+					undefined,
+					{ limit: 200 },
+				)) as { brandList?: Array<{ brandId?: string; name?: string }> };
+				return (res?.brandList || []).map((b) => ({
+					name: b.name || b.brandId || '',
+					value: b.brandId || '',
+				}));
+			},
+			async getRcsTemplates(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const brandId = (this.getCurrentNodeParameter('rcsBrandId') as string) || '';
+				if (!brandId) return [];
+				const res = (await solapiApiRequest(
+					this,
+					'GET',
+					'/rcs/v1/templates',
+					undefined,
+					{ brandId, limit: 200 },
+				)) as { templateList?: Array<{ templateId?: string; name?: string }> };
+				return (res?.templateList || []).map((t) => ({
+					name: t.name || t.templateId || '',
+					value: t.templateId || '',
+				}));
+			},
+		},
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const returnData: INodeExecutionData[] = [];
+		const failedData: INodeExecutionData[] = [];
+		const requestCache: RequestCache = new Map();
+		const spent = { amount: 0 };
+
+		const firstOptions = this.getNodeParameter('options', 0, {}) as IDataObject;
+		const firstResource = this.getNodeParameter('resource', 0) as string;
+		const firstOperation = this.getNodeParameter('operation', 0) as string;
+		const isSendOperation =
+			firstResource === 'message' && SEND_OPERATIONS.includes(firstOperation);
+
+		if (isSendOperation && firstOptions.batching === true) {
+			const batched = await sendInBatches(this, items, firstOperation, firstOptions);
+			return firstOptions.failedOutput
+				? [batched.returnData, batched.failedData]
+				: [batched.returnData];
+		}
+
+		// 여러 아이템의 메시지를 그룹별로 모아 한 번에 추가한다
+		if (firstResource === 'messageGroup' && firstOperation === 'addMessages') {
+			return [await addMessagesFromItems(this, items)];
+		}
+
+		for (let i = 0; i < items.length; i++) {
+			try {
+				const resource = this.getNodeParameter('resource', i) as string;
+				const operation = this.getNodeParameter('operation', i) as string;
+
+				if (resource === 'message' && operation === 'getScheduledGroups') {
+					const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+					const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+					const groups = await solapiApiRequestAllItems(
+						this,
+						'groupList',
+						'/messages/v4/groups',
+						{ criteria: 'status', cond: 'eq', value: 'SCHEDULED' },
+						limit,
+						i,
+					);
+					returnData.push(...groups.map((group) => ({ json: group, pairedItem: i })));
+					continue;
+				}
+
+				if (resource === 'message' && operation === 'get') {
+					const messageId = this.getNodeParameter('messageId', i) as string;
+					const [message] = await solapiApiRequestAllItems(
+						this,
+						'messageList',
+						'/messages/v4/list',
+						{ messageId },
+						1,
+						i,
+					);
+					if (!message) {
+						throw new NodeOperationError(this.getNode(), `Message ${messageId} not found`, {
+							itemIndex: i,
+						});
+					}
+
+					returnData.push({ json: message, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'message' && operation === 'getAll') {
+					const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+					const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+					const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+
+					const qs: IDataObject = {};
+					for (const key of ['messageId', 'groupId', 'to', 'from', 'statusCode', 'type']) {
+						if (filters[key]) qs[key] = filters[key];
+					}
+					if (filters.startDate || filters.endDate) {
+						qs.dateType = filters.dateType || 'CREATED';
+						if (filters.startDate) {
+							qs.startDate = toSolapiDate(filters.startDate as string, this.getTimezone());
+						}
+						if (filters.endDate) {
+							qs.endDate = toSolapiDate(filters.endDate as string, this.getTimezone());
+						}
+					}
+
+					const messages = await solapiApiRequestAllItems(
+						this,
+						'messageList',
+						'/messages/v4/list',
+						qs,
+						limit,
+						i,
+					);
+					returnData.push(...messages.map((message) => ({ json: message, pairedItem: i })));
+					continue;
+				}
+
+				if (resource === 'message' && operation === 'rescheduleGroup') {
+					const groupId = this.getNodeParameter('groupId', i) as string;
+					const sendAt = this.getNodeParameter('sendAt', i) as string;
+					const timezone = this.getNodeParameter('timezone', i, '') as string;
+					const scheduledDate = resolveSendAt(this, sendAt, timezone, i);
+					if (!scheduledDate) {
+						throw new NodeOperationError(this.getNode(), 'Send At is required', { itemIndex: i });
+					}
+
+					const response = await solapiApiRequest(
+						this,
+						'POST',
+						`/messages/v4/groups/${groupId}/schedule`,
+						{ scheduledDate },
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'message' && operation === 'cancelScheduledGroup') {
+					const groupId = this.getNodeParameter('groupId', i) as string;
+
+					const response = await solapiApiRequest(
+						this,
+						'DELETE',
+						`/messages/v4/groups/${groupId}/schedule`,
+						undefined,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'messageGroup' && operation === 'create') {
+					const createOptions = this.getNodeParameter('createOptions', i, {}) as IDataObject;
+					const body: IDataObject = { appId: SOLAPI_APP_ID };
+					if (createOptions.allowDuplicates) body.allowDuplicates = true;
+
+					const response = await solapiApiRequest(
+						this,
+						'POST',
+						'/messages/v4/groups',
+						body,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'messageGroup' && operation === 'send') {
+					const groupId = this.getNodeParameter('groupId', i) as string;
+					const sendOptions = this.getNodeParameter('sendOptions', i, {}) as IDataObject;
+					const scheduledDate = resolveSendAt(
+						this,
+						(sendOptions.sendAt as string) || '',
+						(sendOptions.timezone as string) || '',
+						i,
+					);
+
+					const response = scheduledDate
+						? await solapiApiRequest(
+								this,
+								'POST',
+								`/messages/v4/groups/${groupId}/schedule`,
+								{ scheduledDate },
+								undefined,
+								undefined,
+								i,
+							)
+						: await solapiApiRequest(
+								this,
+								'POST',
+								`/messages/v4/groups/${groupId}/send`,
+								undefined,
+								undefined,
+								undefined,
+								i,
+							);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'messageGroup' && operation === 'get') {
+					const groupId = this.getNodeParameter('groupId', i) as string;
+
+					const response = await solapiApiRequest(
+						this,
+						'GET',
+						`/messages/v4/groups/${groupId}`,
+						undefined,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'messageGroup' && operation === 'getAll') {
+					const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+					const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+					const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+
+					const qs: IDataObject = {};
+					if (filters.status) {
+						Object.assign(qs, { criteria: 'status', cond: 'eq', value: filters.status });
+					}
+					if (filters.startDate || filters.endDate) {
+						qs.dateType = 'CREATED';
+						if (filters.startDate) {
+							qs.startDate = toSolapiDate(filters.startDate as string, this.getTimezone());
+						}
+						if (filters.endDate) {
+							qs.endDate = toSolapiDate(filters.endDate as string, this.getTimezone());
+						}
+					}
+
+					const groups = await solapiApiRequestAllItems(
+						this,
+						'groupList',
+						'/messages/v4/groups',
+						qs,
+						limit,
+						i,
+					);
+					returnData.push(...groups.map((group) => ({ json: group, pairedItem: i })));
+					continue;
+				}
+
+				if (resource === 'messageGroup' && operation === 'delete') {
+					const groupId = this.getNodeParameter('groupId', i) as string;
+
+					const response = await solapiApiRequest(
+						this,
+						'DELETE',
+						`/messages/v4/groups/${groupId}`,
+						undefined,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'kakaoTemplate' && (operation === 'create' || operation === 'update')) {
+					const body: IDataObject =
+						operation === 'create'
+							? {
+									channelId: this.getNodeParameter('channelId', i) as string,
+									name: this.getNodeParameter('name', i) as string,
+									content: this.getNodeParameter('content', i) as string,
+									categoryCode: this.getNodeParameter('categoryCode', i) as string,
+									...(this.getNodeParameter('additionalFields', i, {}) as IDataObject),
+								}
+							: { ...(this.getNodeParameter('updateFields', i, {}) as IDataObject) };
+
+					const buttons = getKakaoButtons(this, i, 'templateButtons', 'button');
+					if (buttons) body.buttons = buttons;
+					const quickReplies = getKakaoButtons(this, i, 'templateQuickReplies', 'quickReply');
+					if (quickReplies) body.quickReplies = quickReplies;
+
+					if (operation === 'update' && Object.keys(body).length === 0) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Please specify at least one field to update',
+							{ itemIndex: i },
+						);
+					}
+
+					const templateId =
+						operation === 'update' ? (this.getNodeParameter('kakaoTemplateId', i) as string) : '';
+					const response = await solapiApiRequest(
+						this,
+						operation === 'create' ? 'POST' : 'PUT',
+						operation === 'create' ? '/kakao/v2/templates' : `/kakao/v2/templates/${templateId}`,
+						body,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (
+					resource === 'kakaoTemplate' &&
+					(operation === 'requestInspection' || operation === 'cancelInspection')
+				) {
+					const templateId = this.getNodeParameter('kakaoTemplateId', i) as string;
+					const endpoint =
+						operation === 'requestInspection'
+							? `/kakao/v2/templates/${templateId}/inspection`
+							: `/kakao/v2/templates/${templateId}/inspection/cancel`;
+
+					const response = await solapiApiRequest(
+						this,
+						'PUT',
+						endpoint,
+						undefined,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'kakaoTemplate' && (operation === 'get' || operation === 'delete')) {
+					const templateId = this.getNodeParameter('kakaoTemplateId', i) as string;
+
+					const response = await solapiApiRequest(
+						this,
+						operation === 'get' ? 'GET' : 'DELETE',
+						`/kakao/v2/templates/${templateId}`,
+						undefined,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'kakaoTemplate' && operation === 'getAll') {
+					const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+					const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+					const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+
+					const templates = await solapiApiRequestAllItems(
+						this,
+						'templateList',
+						'/kakao/v2/templates',
+						filters,
+						limit,
+						i,
+					);
+					returnData.push(...templates.map((template) => ({ json: template, pairedItem: i })));
+					continue;
+				}
+
+				if (resource === 'account' && (operation === 'getBalance' || operation === 'getPricing')) {
+					const response = await solapiApiRequest(
+						this,
+						'GET',
+						operation === 'getBalance' ? '/cash/v1/balance' : '/pricing/v1/messaging',
+						undefined,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'account' && operation === 'getStatistics') {
+					const period = this.getNodeParameter('statisticsPeriod', i, 'day') as string;
+					const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+
+					const qs: IDataObject = {};
+					if (filters.startDate) {
+						qs.startDate = toSolapiDate(filters.startDate as string, this.getTimezone());
+					}
+					if (filters.endDate) {
+						qs.endDate = toSolapiDate(filters.endDate as string, this.getTimezone());
+					}
+
+					const response = (await solapiApiRequest(
+						this,
+						'GET',
+						'/messages/v4/statistics',
+						undefined,
+						qs,
+						undefined,
+						i,
+					)) as IDataObject;
+
+					const periods = period === 'total' ? undefined : response?.[`${period}Period`];
+					if (Array.isArray(periods)) {
+						returnData.push(...(periods as IDataObject[]).map((json) => ({ json, pairedItem: i })));
+					} else {
+						returnData.push({ json: response, pairedItem: i });
+					}
+					continue;
+				}
+
+				if (resource === 'commerceHook' && (operation === 'create' || operation === 'update')) {
+					const body: IDataObject =
+						operation === 'create'
+							? {
+									name: this.getNodeParameter('hookName', i) as string,
+									...(this.getNodeParameter('additionalFields', i, {}) as IDataObject),
+								}
+							: { ...(this.getNodeParameter('updateFields', i, {}) as IDataObject) };
+
+					if (operation === 'update' && Object.keys(body).length === 0) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Please specify at least one field to update',
+							{ itemIndex: i },
+						);
+					}
+
+					const hookId =
+						operation === 'update' ? (this.getNodeParameter('commerceHookId', i) as string) : '';
+					const response = await solapiApiRequest(
+						this,
+						operation === 'create' ? 'POST' : 'PUT',
+						operation === 'create' ? '/commerce/v1/hooks' : `/commerce/v1/hooks/${hookId}`,
+						body,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (
+					resource === 'commerceHook' &&
+					(operation === 'get' ||
+						operation === 'delete' ||
+						operation === 'enable' ||
+						operation === 'disable')
+				) {
+					const hookId = this.getNodeParameter('commerceHookId', i) as string;
+
+					const response = await solapiApiRequest(
+						this,
+						operation === 'get' ? 'GET' : operation === 'delete' ? 'DELETE' : 'POST',
+						operation === 'get' || operation === 'delete'
+							? `/commerce/v1/hooks/${hookId}`
+							: `/commerce/v1/hooks/${hookId}/${operation}`,
+						undefined,
+						undefined,
+						undefined,
+						i,
+					);
 
-	methods = {
-		loadOptions: {
-			async getActiveSenderIds(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-				const res = await solapiApiRequest(
-					this,
-					'GET',
-					'/senderid/v1/numbers/active',
-				);
-				let list: unknown = res;
-				if (typeof list === 'string') {
-					try {
-						list = JSON.parse(list);
-					} catch {}
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
 				}
-				const arr = Array.isArray(list) ? (list as unknown[]) : [];
-				return arr
-					.filter((v) => typeof v === 'string' && (v as string).trim())
-					.map((num) => ({ name: num as string, value: num as string }));
-			},
-			async getMmsImages(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-				const res = (await solapiApiRequest(
-					this,
-					'GET',
-					'/storage/v1/files',
-					undefined,
-					{ type: 'MMS', limit: 500 },
-				)) as { fileList?: Array<{ fileId?: string; name?: string }> };
-				const list = res?.fileList || [];
-				return list.map((f) => ({ name: f.name || f.fileId || '', value: f.fileId || '' }));
-			},
-			async getKakaoImages(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-				const res = (await solapiApiRequest(
-					this,
-					'GET',
-					'/storage/v1/files',
-					undefined,
-					{ type: 'KAKAO', limit: 500 },
-				)) as { fileList?: Array<{ fileId?: string; name?: string }> };
-				const list = res?.fileList || [];
-				return list.map((f) => ({ name: f.name || f.fileId || '', value: f.fileId || '' }));
-			},
-			async getKakaoChannels(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-				const res = (await solapiApiRequest(
-					this,
-					'GET',
-					'/kakao/v2/channels',
-					undefined,
-					{ limit: 200 },
-				)) as { channelList?: Array<{ channelId?: string; searchId: string; channelName?: string }> };
-				const list = res?.channelList || [];
-				return list.map((c) => ({ name: `${c.channelName || c.searchId || c.channelId}`, value: c.channelId || '' }));
-			},
-			async getKakaoTpls(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-				const pfId = (this.getCurrentNodeParameter('channelId') as string) || '';
-				if (!pfId) return [];
-				const res = (await solapiApiRequest(
-					this,
-					'GET',
-					'/kakao/v1/templates/sendable',
-					undefined,
-					{ pfId },
-				)) as Array<{ templateId?: string; name?: string; variables?: Array<{ name?: string }> }>;
-				return (res || []).map((t) => ({ name: `${t.name}`, value: t.templateId || '', description: t.variables && t.variables.length > 0 ? `vars: ${t.variables.map(v => v.name).join(', ')}` : undefined }));
-			},
-			async getKakaoTplVariables(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-				const pfId = (this.getCurrentNodeParameter('channelId') as string) || '';
-				const templateId = (this.getCurrentNodeParameter('templateId') as string) || '';
-				if (!pfId || !templateId) return [];
-				const res = (await solapiApiRequest(
-					this,
-					'GET',
-					'/kakao/v1/templates/sendable',
-					undefined,
-					{ pfId },
-				)) as Array<{ templateId?: string; variables?: Array<{ name?: string }> }>;
-				const found = (res || []).find(t => t.templateId === templateId);
-				const vars = found?.variables || [];
-				return vars.map(v => ({ name: v.name || '', value: v.name || '' }));
-			},
-		},
-	};
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+				if (resource === 'commerceHook' && operation === 'getActions') {
+					const hookId = this.getNodeParameter('commerceHookId', i) as string;
 
-		for (let i = 0; i < items.length; i++) {
-			try {
-				const resource = this.getNodeParameter('resource', i) as string;
-				const operation = this.getNodeParameter('operation', i) as string;
+					const response = (await solapiApiRequest(
+						this,
+						'GET',
+						`/commerce/v1/hooks/${hookId}/actions`,
+						undefined,
+						undefined,
+						undefined,
+						i,
+					)) as IDataObject | IDataObject[];
 
-				if (resource === 'message' && operation === 'sendText') {
-					const toRaw = this.getNodeParameter('to', i) as string;
-					const from = this.getNodeParameter('from', i) as string;
-					const text = this.getNodeParameter('text', i) as string;
-					const subject = this.getNodeParameter('subject', i, '') as string;
-					const imageId = this.getNodeParameter('imageId', i, '') as string;
-					const country = (this.getNodeParameter('country', i, '82') as string) || '82';
-
-					const recipients = String(toRaw)
-						.replace(/\n/g, ',')
-						.split(',')
-						.map((v) => v.trim())
-						.filter((v) => v);
-
-					const messages = recipients.map((to) => {
-						const msg: Record<string, unknown> = { to, from, country, text };
-						if (subject) msg.subject = subject;
-						if (imageId) msg.imageId = imageId;
-						return msg;
-					});
+					const actions = Array.isArray(response) ? response : response?.actionList;
+					if (Array.isArray(actions)) {
+						returnData.push(...(actions as IDataObject[]).map((json) => ({ json, pairedItem: i })));
+					} else {
+						returnData.push({ json: response as IDataObject, pairedItem: i });
+					}
+					continue;
+				}
+
+				if (
+					resource === 'commerceHook' &&
+					(operation === 'addAction' ||
+						operation === 'updateAction' ||
+						operation === 'deleteAction')
+				) {
+					const hookId = this.getNodeParameter('commerceHookId', i) as string;
+					const hookActionId =
+						operation === 'addAction' ? '' : (this.getNodeParameter('hookActionId', i) as string);
+
+					let body: IDataObject | undefined;
+					if (operation !== 'deleteAction') {
+						const params = parseJsonParameter(
+							this,
+							this.getNodeParameter('actionParams', i, '') as unknown,
+							'Action Parameters (JSON)',
+							i,
+						);
+						if (params !== undefined && (typeof params !== 'object' || Array.isArray(params))) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'Action Parameters (JSON) must be an object',
+								{ itemIndex: i },
+							);
+						}
+						body = { ...(params as IDataObject | undefined) };
+						if (operation === 'addAction') {
+							body.actionId = this.getNodeParameter('actionId', i) as string;
+						}
+					}
 
 					const response = await solapiApiRequest(
 						this,
-						'POST',
-						'/messages/v4/send-many/detail',
-						{
-							messages,
-							agent: { appId: '9fEGAmn6N2vt' },
-						},
+						operation === 'addAction' ? 'POST' : operation === 'updateAction' ? 'PUT' : 'DELETE',
+						operation === 'addAction'
+							? `/commerce/v1/hooks/${hookId}/actions`
+							: `/commerce/v1/hooks/${hookId}/actions/${hookActionId}`,
+						body,
 						undefined,
 						undefined,
 						i,
 					);
 
-					returnData.push({ json: (response as any).body ?? response, pairedItem: i });
+					returnData.push({ json: response as IDataObject, pairedItem: i });
 					continue;
 				}
 
-				if (resource === 'message' && operation === 'sendKakaoATA') {
-					const toRaw = this.getNodeParameter('to', i) as string;
-					const channelId = this.getNodeParameter('channelId', i) as string;
-					const templateId = this.getNodeParameter('templateId', i) as string;
-					const variablesJson = this.getNodeParameter('variablesJson', i, '') as string;
-					const from = this.getNodeParameter('fromForKakao', i, '') as string;
-					const country = (this.getNodeParameter('country', i, '82') as string) || '82';
+				if (resource === 'commerceHook' && operation === 'getAll') {
+					const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+					const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
 
-					let variables: Record<string, string> | undefined;
-					try {
-						variables = variablesJson ? (JSON.parse(variablesJson) as Record<string, string>) : undefined;
-					} catch {}
+					const hooks = await solapiApiRequestAllItems(
+						this,
+						'hookList',
+						'/commerce/v1/hooks',
+						{},
+						limit,
+						i,
+					);
+					returnData.push(...hooks.map((hook) => ({ json: hook, pairedItem: i })));
+					continue;
+				}
 
-					// Assemble variables from dynamic fields if provided
-					const variablesCollection = this.getNodeParameter('variables', i, {}) as Record<string, any>;
-					if (variablesCollection && Array.isArray((variablesCollection as any).variable)) {
-						const arr = (variablesCollection as any).variable as Array<{ name?: string; value?: string }>;
-						const kv: Record<string, string> = {};
-						for (const entry of arr) {
-							if (!entry) continue;
-							const key = (entry.name || '').trim();
-							const val = (entry.value || '').trim();
-							if (key) kv[key] = val;
-						}
-						if (Object.keys(kv).length > 0) variables = { ...(variables || {}), ...kv };
+				if (resource === 'contact' && (operation === 'create' || operation === 'update')) {
+					const body: IDataObject =
+						operation === 'create'
+							? {
+									phoneNumber: normalizeContactPhone(
+										this,
+										this.getNodeParameter('phoneNumber', i),
+										i,
+									),
+									...(this.getNodeParameter('additionalFields', i, {}) as IDataObject),
+								}
+							: { ...(this.getNodeParameter('updateFields', i, {}) as IDataObject) };
+
+					if (operation === 'update' && Object.keys(body).length === 0) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Please specify at least one field to update',
+							{ itemIndex: i },
+						);
+					}
+					if (operation === 'update' && body.phoneNumber !== undefined) {
+						body.phoneNumber = normalizeContactPhone(this, body.phoneNumber, i);
+					}
+
+					const contactId =
+						operation === 'update' ? (this.getNodeParameter('contactId', i) as string) : '';
+					const response = await solapiApiRequest(
+						this,
+						operation === 'create' ? 'POST' : 'PUT',
+						operation === 'create' ? '/contacts/v1/contacts' : `/contacts/v1/contacts/${contactId}`,
+						body,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'contact' && (operation === 'get' || operation === 'delete')) {
+					const contactId = this.getNodeParameter('contactId', i) as string;
+
+					const response = await solapiApiRequest(
+						this,
+						operation === 'get' ? 'GET' : 'DELETE',
+						`/contacts/v1/contacts/${contactId}`,
+						undefined,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (
+					resource === 'contact' &&
+					(operation === 'addToGroup' || operation === 'removeFromGroup')
+				) {
+					const contactId = this.getNodeParameter('contactId', i) as string;
+					const groupId = this.getNodeParameter('contactGroupId', i) as string;
+
+					const response = await solapiApiRequest(
+						this,
+						operation === 'addToGroup' ? 'PUT' : 'DELETE',
+						`/contacts/v1/groups/${groupId}/contacts/${contactId}`,
+						undefined,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'contact' && operation === 'getAll') {
+					const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+					const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+					const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+					if (filters.phoneNumber) {
+						filters.phoneNumber = normalizeContactPhone(this, filters.phoneNumber, i);
 					}
 
-					const disableSms = !from;
-					const recipients = String(toRaw)
-						.replace(/\n/g, ',')
-						.split(',')
-						.map((v) => v.trim())
-						.filter((v) => v);
+					const contacts = await solapiApiRequestAllItems(
+						this,
+						'contactList',
+						'/contacts/v1/contacts',
+						filters,
+						limit,
+						i,
+					);
+					returnData.push(...contacts.map((contact) => ({ json: contact, pairedItem: i })));
+					continue;
+				}
+
+				if (resource === 'contactGroup' && (operation === 'create' || operation === 'update')) {
+					const name = this.getNodeParameter('groupName', i) as string;
+					const groupId =
+						operation === 'update' ? (this.getNodeParameter('contactGroupId', i) as string) : '';
+
+					const response = await solapiApiRequest(
+						this,
+						operation === 'create' ? 'POST' : 'PUT',
+						operation === 'create' ? '/contacts/v1/groups' : `/contacts/v1/groups/${groupId}`,
+						{ name },
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'contactGroup' && (operation === 'get' || operation === 'delete')) {
+					const groupId = this.getNodeParameter('contactGroupId', i) as string;
+
+					const response = await solapiApiRequest(
+						this,
+						operation === 'get' ? 'GET' : 'DELETE',
+						`/contacts/v1/groups/${groupId}`,
+						undefined,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'contactGroup' && operation === 'getAll') {
+					const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+					const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
 
-					const kakaoOptions: Record<string, unknown> = { pfId: channelId, templateId, disableSms };
-					if (variables && Object.keys(variables).length > 0) {
-						kakaoOptions.variables = variables;
+					const groups = await solapiApiRequestAllItems(
+						this,
+						'groupList',
+						'/contacts/v1/groups',
+						{},
+						limit,
+						i,
+					);
+					returnData.push(...groups.map((group) => ({ json: group, pairedItem: i })));
+					continue;
+				}
+
+				if (resource === 'senderId' && operation === 'getAll') {
+					const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+					const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+					const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+
+					const qs: IDataObject = {};
+					if (filters.status) {
+						Object.assign(qs, { criteria: 'status', cond: 'eq', value: filters.status });
 					}
 
-					const messages = recipients.map((to) => {
-						const msg: Record<string, unknown> = { to, country, kakaoOptions };
-						if (from) msg.from = from;
-						return msg;
-					});
+					const senderIds = await solapiApiRequestAllItems(
+						this,
+						'senderIdList',
+						'/senderid/v1/numbers',
+						qs,
+						limit,
+						i,
+					);
+					returnData.push(...senderIds.map((senderId) => ({ json: senderId, pairedItem: i })));
+					continue;
+				}
+
+				if (resource === 'senderId' && (operation === 'get' || operation === 'delete')) {
+					const phoneNumber = normalizePhoneKey(this.getNodeParameter('phoneNumber', i));
+
+					const response = await solapiApiRequest(
+						this,
+						operation === 'get' ? 'GET' : 'DELETE',
+						`/senderid/v1/numbers/${phoneNumber}`,
+						undefined,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'senderId' && operation === 'register') {
+					const phoneNumber = normalizePhoneKey(this.getNodeParameter('phoneNumber', i));
+					const additionalFields = this.getNodeParameter('additionalFields', i, {}) as IDataObject;
 
 					const response = await solapiApiRequest(
 						this,
 						'POST',
-						'/messages/v4/send-many/detail',
-						{ messages, agent: { appId: '9fEGAmn6N2vt' } },
+						'/senderid/v1/numbers',
+						{ phoneNumber, ...additionalFields },
 						undefined,
 						undefined,
 						i,
 					);
 
-					returnData.push({ json: (response as any).body ?? response, pairedItem: i });
+					returnData.push({ json: response as IDataObject, pairedItem: i });
 					continue;
 				}
 
-				if (resource === 'message' && operation === 'sendKakaoCTA') {
-					const toRaw = this.getNodeParameter('to', i) as string;
-					const channelId = this.getNodeParameter('channelId', i) as string;
-					const text = this.getNodeParameter('text', i) as string;
-					const from = this.getNodeParameter('fromForKakao', i, '') as string;
-					const adFlag = this.getNodeParameter('adFlag', i, false) as boolean;
-					const kakaoImageId = this.getNodeParameter('kakaoImageId', i, '') as string;
-					const buttonsJson = this.getNodeParameter('buttonsJson', i, '') as string;
-					const country = (this.getNodeParameter('country', i, '82') as string) || '82';
+				if (resource === 'storage' && operation === 'upload') {
+					const fileType = this.getNodeParameter('fileType', i) as string;
+					const source = this.getNodeParameter('source', i) as string;
+					const uploadOptions = this.getNodeParameter('uploadOptions', i, {}) as IDataObject;
 
-					let buttons: Array<Record<string, unknown>> | undefined;
-					try {
-						const parsed = buttonsJson ? (JSON.parse(buttonsJson) as Array<Record<string, unknown>>) : undefined;
-						if (Array.isArray(parsed) && parsed.length > 0) buttons = parsed;
-					} catch {}
+					const file =
+						source === 'url'
+							? await downloadFile(this, this.getNodeParameter('fileUrl', i) as string)
+							: await getBinaryFile(
+									this,
+									i,
+									this.getNodeParameter('binaryPropertyName', i) as string,
+								);
+					if (uploadOptions.fileName) file.name = uploadOptions.fileName as string;
 
-					const disableSms = !from;
-					const recipients = String(toRaw)
-						.replace(/\n/g, ',')
-						.split(',')
-						.map((v) => v.trim())
-						.filter((v) => v);
-
-					const kakaoOptions: Record<string, unknown> = { pfId: channelId, disableSms, adFlag };
-					if (kakaoImageId) kakaoOptions.imageId = kakaoImageId;
-					if (buttons) kakaoOptions.buttons = buttons.slice(0, 5);
-
-					const messages = recipients.map((to) => {
-						const msg: Record<string, unknown> = { to, country, text, kakaoOptions };
-						if (from) msg.from = from;
-						return msg;
-					});
+					const response = await uploadFile(
+						this,
+						file,
+						fileType,
+						i,
+						(uploadOptions.link as string) || undefined,
+					);
+
+					returnData.push({ json: response, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'storage' && operation === 'get') {
+					const fileId = this.getNodeParameter('fileId', i) as string;
 
 					const response = await solapiApiRequest(
 						this,
-						'POST',
-						'/messages/v4/send-many/detail',
-						{ messages, agent: { appId: '9fEGAmn6N2vt' } },
+						'GET',
+						`/storage/v1/files/${fileId}`,
+						undefined,
+						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'storage' && operation === 'getAll') {
+					const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+					const limit = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+					const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+
+					const files = await solapiApiRequestAllItems(
+						this,
+						'fileList',
+						'/storage/v1/files',
+						filters.type ? { type: filters.type } : {},
+						limit,
+						i,
+					);
+					returnData.push(...files.map((file) => ({ json: file, pairedItem: i })));
+					continue;
+				}
+
+				if (resource === 'storage' && operation === 'delete') {
+					const fileId = this.getNodeParameter('fileId', i) as string;
+
+					const response = await solapiApiRequest(
+						this,
+						'DELETE',
+						`/storage/v1/files/${fileId}`,
 						undefined,
 						undefined,
+						undefined,
+						i,
+					);
+
+					returnData.push({ json: response as IDataObject, pairedItem: i });
+					continue;
+				}
+
+				if (resource === 'message' && SEND_OPERATIONS.includes(operation)) {
+					const options = this.getNodeParameter('options', i, {}) as IDataObject;
+					const scheduledDate = resolveSendAt(
+						this,
+						(options.sendAt as string) || '',
+						(options.timezone as string) || '',
 						i,
 					);
+					const prepared = await buildSendMessages(this, operation, i, options, requestCache);
+					if (prepared.skipped) {
+						returnData.push({ json: prepared.skipped, pairedItem: i });
+						continue;
+					}
+					if (options.dryRun) {
+						const previews = previewMessages(prepared);
+						returnData.push(...previews.map((json) => ({ json, pairedItem: { item: i } })));
+						continue;
+					}
+
+					if (options.minimumBalance !== undefined && prepared.messages.length > 0) {
+						await assertBalanceCovers(
+							this,
+							prepared.messages,
+							Number(options.minimumBalance),
+							i,
+							requestCache,
+							spent,
+						);
+					}
 
-					returnData.push({ json: (response as any).body ?? response, pairedItem: i });
+					const response =
+						prepared.messages.length > 0
+							? await sendMessages(this, prepared.messages, i, scheduledDate)
+							: {};
+
+					addSendResult(response, options, i, returnData, failedData, prepared);
 					continue;
 				}
 
@@ -538,10 +3434,11 @@ export class Solapi implements INodeType {
 			}
 		}
 
+		if (isSendOperation && firstOptions.failedOutput) {
+			return [returnData, failedData];
+		}
 		return [returnData];
 	}
-
-
 }
 
 
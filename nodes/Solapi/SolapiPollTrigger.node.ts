@@ -0,0 +1,307 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { NodeConnectionType } from 'n8n-workflow';
+
+import {
+	matchesReportFilters,
+	simplifyReports,
+	solapiApiRequest,
+	solapiApiRequestAllItems,
+} from './GenericFunctions';
+import { reportFilterFields } from './ReportFilterDescription';
+
+// 목록 API의 반영 지연을 고려해 이전 커서보다 조금 앞에서부터 다시 조회한다
+const POLL_OVERLAP_MS = 5 * 60 * 1000;
+
+// 2000(접수), 3000(이통사 전달)은 아직 결과가 나오지 않은 상태다
+const PENDING_STATUS_CODES = ['2000', '3000'];
+
+const FINAL_GROUP_STATUSES = ['COMPLETE', 'FAILED'];
+
+// 예약 그룹은 발송을 시작하면 SENDING을 거쳐 COMPLETE나 FAILED가 된다
+const STARTED_GROUP_STATUSES = ['SENDING', ...FINAL_GROUP_STATUSES];
+
+const INSPECTION_RESULT_STATUSES = ['APPROVED', 'REJECTED'];
+
+interface PollState {
+	eventType?: string;
+	cursor?: string;
+	// 겹쳐 조회한 구간에서 이미 내보낸 항목 키와 그 항목의 시각(ms)
+	emitted?: Record<string, number>;
+	// 목록 전체를 비교하는 이벤트의 마지막 상태
+	snapshot?: Record<string, string>;
+	belowThreshold?: boolean;
+}
+
+async function pollListEvents(
+	ctx: IPollFunctions,
+	eventType: string,
+	state: PollState,
+	manual: boolean,
+): Promise<IDataObject[]> {
+	const now = Date.now();
+	const since = manual
+		? now - 24 * 60 * 60 * 1000
+		: Math.min(Date.parse(state.cursor as string), now) - POLL_OVERLAP_MS;
+	const qs: IDataObject = {
+		dateType: 'UPDATED',
+		startDate: new Date(since).toISOString(),
+		endDate: new Date(now).toISOString(),
+	};
+	const timeOf = (value: unknown) => Date.parse(value as string) || now;
+
+	let events: Array<{ key: string; time: number; json: IDataObject }> = [];
+	if (eventType === 'messageReport') {
+		const messages = await solapiApiRequestAllItems(ctx, 'messageList', '/messages/v4/list', qs);
+		events = messages
+			.filter((message) => !PENDING_STATUS_CODES.includes(String(message.statusCode ?? '')))
+			.map((message) => ({
+				key: `${message.messageId}:${message.statusCode}`,
+				time: timeOf(message.dateUpdated),
+				json: message,
+			}));
+	} else {
+		const groups = await solapiApiRequestAllItems(ctx, 'groupList', '/messages/v4/groups', qs);
+		events =
+			eventType === 'groupReport'
+				? groups
+						.filter((group) => FINAL_GROUP_STATUSES.includes(String(group.status ?? '')))
+						// 완료 후에 늦게 도착한 집계로 수정 시각이 바뀌어도 다시 내보내지 않도록 완료 시각을 쓴다
+						.map((group) => ({
+							key: `${group.groupId}:${group.status}`,
+							time: timeOf(group.dateCompleted ?? group.dateUpdated),
+							json: group,
+						}))
+				: groups
+						// 예약 시각이 지났고 이미 발송을 시작한 그룹만 고른다
+						.filter(
+							(group) =>
+								Date.parse(group.scheduledDate as string) <= now &&
+								STARTED_GROUP_STATUSES.includes(String(group.status ?? '')),
+						)
+						.map((group) => ({
+							key: String(group.groupId),
+							time: Date.parse(group.scheduledDate as string),
+							json: group,
+						}));
+	}
+	// 조회 구간보다 앞선 항목은 이미 지난 조회에서 다뤘다
+	events = events.filter((event) => event.time >= since);
+	if (manual) return events.slice(0, 1).map((event) => event.json);
+
+	const emitted = state.emitted ?? {};
+	const fresh = events.filter((event) => emitted[event.key] === undefined);
+	for (const event of fresh) emitted[event.key] = event.time;
+	// 조회 구간보다 앞선 키는 위 필터로 다시 나오지 않으므로 버린다
+	for (const [key, time] of Object.entries(emitted)) {
+		if (time < since) delete emitted[key];
+	}
+	state.emitted = emitted;
+	state.cursor = new Date(now).toISOString();
+	return fresh.map((event) => event.json);
+}
+
+async function pollSnapshotEvents(
+	ctx: IPollFunctions,
+	eventType: string,
+	state: PollState,
+	manual: boolean,
+): Promise<IDataObject[]> {
+	const list =
+		eventType === 'senderIdStatus'
+			? await solapiApiRequestAllItems(ctx, 'senderIdList', '/senderid/v1/numbers')
+			: await solapiApiRequestAllItems(ctx, 'templateList', '/kakao/v2/templates');
+	if (manual) return list.slice(0, 1);
+
+	const idKey = eventType === 'senderIdStatus' ? 'phoneNumber' : 'templateId';
+	const previous = state.snapshot;
+	const snapshot: Record<string, string> = {};
+	const changed: IDataObject[] = [];
+	for (const entry of list) {
+		const id = String(entry[idKey] ?? '');
+		if (!id) continue;
+		const status = String(entry.status ?? '');
+		// 발신번호는 만료일이 바뀌어도(갱신) 알린다
+		snapshot[id] = eventType === 'senderIdStatus' ? `${status}:${entry.expireAt ?? ''}` : status;
+		if (!previous || previous[id] === snapshot[id]) continue;
+		if (eventType === 'kakaoTemplateInspection' && !INSPECTION_RESULT_STATUSES.includes(status)) {
+			continue;
+		}
+		changed.push({ ...entry, previousStatus: previous[id]?.split(':')[0] ?? null });
+	}
+	// 첫 조회는 기준 상태만 저장한다
+	state.snapshot = snapshot;
+	return changed;
+}
+
+async function pollLowBalance(
+	ctx: IPollFunctions,
+	state: PollState,
+	manual: boolean,
+): Promise<IDataObject[]> {
+	const threshold = ctx.getNodeParameter('balanceThreshold', 0) as number;
+	const balance = (await solapiApiRequest(ctx, 'GET', '/cash/v1/balance')) as IDataObject;
+	const available = Number(balance?.balance ?? 0) + Number(balance?.point ?? 0);
+	if (manual) return [{ ...balance, available, threshold }];
+
+	const below = available < threshold;
+	// 기준 아래로 내려갈 때 한 번만 알리고, 다시 올라가면 초기화한다
+	const crossed = below && !state.belowThreshold;
+	state.belowThreshold = below;
+	return crossed ? [{ ...balance, available, threshold }] : [];
+}
+
+export class SolapiPollTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Solapi Poll Trigger',
+		name: 'solapiPollTrigger',
+		icon: 'file:solapi.svg',
+		group: ['trigger'],
+		version: 1,
+		description: 'Poll Solapi for delivery reports and account events without a public webhook URL',
+		subtitle: '={{$parameter["eventType"]}}',
+		defaults: {
+			name: 'Solapi Poll Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'solapiOAuth2Api',
+				required: true,
+				displayOptions: { show: { authentication: ['oAuth2'] } },
+			},
+			{
+				name: 'solapiApiKeyApi',
+				required: true,
+				displayOptions: { show: { authentication: ['apiKey'] } },
+			},
+		],
+		properties: [
+			{
+				displayName: 'Authentication',
+				name: 'authentication',
+				type: 'options',
+				default: 'oAuth2',
+				options: [
+					{ name: 'OAuth2', value: 'oAuth2' },
+					{ name: 'API Key (HMAC-SHA256)', value: 'apiKey' },
+				],
+			},
+			{
+				displayName: 'Event Type',
+				name: 'eventType',
+				type: 'options',
+				default: 'messageReport',
+				options: [
+					{
+						name: 'On Group Report',
+						value: 'groupReport',
+						description: 'A message group finished sending',
+					},
+					{
+						name: 'On Kakao Template Inspection Result',
+						value: 'kakaoTemplateInspection',
+						description: 'An AlimTalk template was approved or rejected',
+					},
+					{
+						name: 'On Low Balance',
+						value: 'lowBalance',
+						description: 'Cash and points fell below the threshold',
+					},
+					{
+						name: 'On Message Report (Single)',
+						value: 'messageReport',
+						description: 'A message reached its final status',
+					},
+					{
+						name: 'On Scheduled Group Start',
+						value: 'scheduledGroupStart',
+						description: 'A scheduled message group started sending',
+					},
+					{
+						name: 'On Sender ID Status Change',
+						value: 'senderIdStatus',
+						description: 'A sender number was approved, rejected, expired or renewed',
+					},
+				],
+			},
+			{
+				displayName:
+					'Inbound messages (MO) and commerce actions have no list API to poll. Use the Solapi Trigger node with a public webhook URL for them.',
+				name: 'webhookOnlyNotice',
+				type: 'notice',
+				default: '',
+			},
+			{
+				displayName: 'Balance Threshold',
+				name: 'balanceThreshold',
+				type: 'number',
+				required: true,
+				description: 'Trigger once when cash and points together fall below this amount',
+				typeOptions: { minValue: 0 },
+				displayOptions: { show: { eventType: ['lowBalance'] } },
+				default: 10000,
+			},
+			...reportFilterFields,
+		],
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const eventType = this.getNodeParameter('eventType', 'messageReport') as string;
+		const manual = this.getMode() === 'manual';
+		const state = this.getWorkflowStaticData('node') as PollState;
+
+		// 이벤트 종류가 바뀌면 이전 커서와 상태를 버린다
+		if (state.eventType !== eventType) {
+			for (const key of Object.keys(state)) delete state[key as keyof PollState];
+			state.eventType = eventType;
+		}
+
+		let events: IDataObject[];
+		if (eventType === 'lowBalance') {
+			events = await pollLowBalance(this, state, manual);
+		} else if (eventType === 'senderIdStatus' || eventType === 'kakaoTemplateInspection') {
+			events = await pollSnapshotEvents(this, eventType, state, manual);
+		} else if (!manual && !state.cursor) {
+			// 처음 활성화할 때는 겹쳐 조회할 구간의 항목을 내보낸 것으로 기록만 해 두고 이후 변경부터 받는다
+			state.cursor = new Date().toISOString();
+			await pollListEvents(this, eventType, state, manual);
+			return null;
+		} else {
+			events = await pollListEvents(this, eventType, state, manual);
+		}
+
+		if (eventType === 'messageReport' || eventType === 'groupReport') {
+			const filters = this.getNodeParameter('filters', {}) as IDataObject;
+			const simplify = this.getNodeParameter('simplify', false) as boolean;
+			if (eventType === 'groupReport' && (simplify || Object.keys(filters).length > 0)) {
+				// 그룹 목록에는 메시지가 없으므로 필터와 단순화를 위해 그룹의 메시지를 붙인다
+				for (const group of events) {
+					group.messageList = await solapiApiRequestAllItems(
+						this,
+						'messageList',
+						'/messages/v4/list',
+						{ groupId: group.groupId },
+					);
+				}
+			}
+			events = events.flatMap((event) => {
+				const reports = simplifyReports(event).filter((report) =>
+					matchesReportFilters(report, filters),
+				);
+				if (simplify) return reports;
+				return reports.length > 0 ? [event] : [];
+			});
+		}
+
+		if (events.length === 0) return null;
+		return [events.map((json) => ({ json }))];
+	}
+}
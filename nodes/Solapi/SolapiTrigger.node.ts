@@ -1,7 +1,144 @@
-import type { INodeType, INodeTypeDescription, IHookFunctions, IWebhookFunctions, IWebhookResponseData, ILoadOptionsFunctions, INodePropertyOptions } from 'n8n-workflow';
+import type { IDataObject, INodeType, INodeTypeDescription, IHookFunctions, IWebhookFunctions, IWebhookResponseData, ILoadOptionsFunctions, INodePropertyOptions } from 'n8n-workflow';
 import { NodeConnectionType, NodeOperationError } from 'n8n-workflow';
+import { createHmac, timingSafeEqual } from 'crypto';
 
-import { solapiApiRequest } from './GenericFunctions';
+import {
+	matchesReportFilters,
+	simplifyReports,
+	solapiApiRequest,
+	solapiApiRequestAllItems,
+} from './GenericFunctions';
+import { reportFilterFields } from './ReportFilterDescription';
+
+// 커머스 액션을 뺀 이벤트는 모두 같은 Outgoing Webhook으로 등록하고 eventId만 다르다
+const OUTGOING_EVENT_IDS: Record<string, string> = {
+	groupReport: 'GROUP-REPORT',
+	inboundMessage: 'INBOUND-MESSAGE',
+	kakaoTemplateInspection: 'KAKAO-TEMPLATE-INSPECTION',
+	lowBalance: 'LOW-BALANCE',
+	messageReport: 'SINGLE-REPORT',
+	scheduledGroupStart: 'SCHEDULED-GROUP-START',
+	senderIdStatus: 'SENDERID-STATUS',
+};
+
+type TriggerStaticData = { webhookId?: string; commerceHookId?: string; webhookUrl?: string };
+
+function isNotFound(error: any): boolean {
+	const status = error?.httpCode ?? error?.response?.status ?? error?.statusCode;
+	return String(status) === '404';
+}
+
+async function listOutgoingWebhooks(ctx: IHookFunctions): Promise<IDataObject[]> {
+	const webhooks: IDataObject[] = [];
+	let startKey: string | undefined;
+	do {
+		const res = (await solapiApiRequest(ctx, 'GET', '/webhook/v1/outgoing', undefined, {
+			limit: 500,
+			...(startKey ? { startKey } : {}),
+		})) as any;
+		const page = Array.isArray(res) ? res : res?.webhookList || res?.list || [];
+		const entries = (Array.isArray(page) ? page : Object.values(page)) as IDataObject[];
+		webhooks.push(...entries);
+		startKey = entries.length > 0 && !Array.isArray(res) ? res?.nextKey || undefined : undefined;
+	} while (startKey);
+	return webhooks;
+}
+
+// 이 노드가 등록한 웹훅은 토큰 쿼리를 뺀 URL이 노드의 웹훅 URL과 같다
+function isOwnWebhook(ctx: IHookFunctions, webhook: IDataObject): boolean {
+	return String(webhook.url ?? '').split('?')[0] === ctx.getNodeWebhookUrl('default');
+}
+
+async function deleteOutgoingWebhook(ctx: IHookFunctions, webhookId: string): Promise<void> {
+	try {
+		await solapiApiRequest(ctx, 'DELETE', `/webhook/v1/outgoing/${webhookId}`);
+	} catch (error) {
+		// 이미 지워진 웹훅은 무시하고 나머지 오류는 그대로 알린다
+		if (!isNotFound(error)) throw error;
+	}
+}
+
+async function disconnectCommerceHook(ctx: IHookFunctions, hookId: string): Promise<void> {
+	try {
+		await solapiApiRequest(ctx, 'POST', `/commerce/v1/hooks/${hookId}/disconnect-webhook`);
+	} catch (error) {
+		if (!isNotFound(error)) throw error;
+	}
+}
+
+// 훅 조회 응답에서 연결된 웹훅 URL을 모은다(외부 웹훅 액션 포함)
+function getConnectedWebhookUrls(hook: IDataObject): string[] {
+	const webhook = hook?.webhook as IDataObject | undefined;
+	const actions = (hook?.actions || hook?.actionList || []) as IDataObject[] | IDataObject;
+	const urls: unknown[] = [hook?.webhookUrl, webhook?.url, webhook?.webhookUrl];
+	for (const action of Array.isArray(actions) ? actions : Object.values(actions)) {
+		if ((action as IDataObject)?.actionId !== 'EXTERNAL-WEBHOOK') continue;
+		const params = (action as IDataObject).params as IDataObject | undefined;
+		urls.push((action as IDataObject).webhookUrl, params?.webhookUrl);
+	}
+	return urls.filter((url): url is string => typeof url === 'string' && url !== '');
+}
+
+// 시크릿 토큰 방식이면 등록 URL에 토큰을 붙여 두고 요청마다 대조한다
+function getRegisteredUrl(ctx: IHookFunctions): string {
+	const url = ctx.getNodeWebhookUrl('default') as string;
+	const verification = ctx.getNodeParameter('verification', 'none') as string;
+	if (verification !== 'secretToken') return url;
+	const secret = ctx.getNodeParameter('webhookSecret', '') as string;
+	return `${url}${url.includes('?') ? '&' : '?'}token=${encodeURIComponent(secret)}`;
+}
+
+function safeEqual(a: string, b: string): boolean {
+	const left = Buffer.from(a);
+	const right = Buffer.from(b);
+	return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function getVerificationFailure(ctx: IWebhookFunctions): string | undefined {
+	const verification = ctx.getNodeParameter('verification', 'none') as string;
+	if (verification === 'none') return undefined;
+
+	const secret = ctx.getNodeParameter('webhookSecret', '') as string;
+	const options = ctx.getNodeParameter('verificationOptions', {}) as IDataObject;
+	const headers = ctx.getHeaderData();
+	const header = (name: string) => {
+		const value = headers[name.toLowerCase()];
+		return (Array.isArray(value) ? value[0] : value) || '';
+	};
+
+	const tolerance = Number(options.timestampTolerance || 0);
+	const timestamp = header((options.timestampHeader as string) || 'x-solapi-timestamp');
+	if (tolerance > 0) {
+		if (!timestamp) return 'missing timestamp header';
+		// 초 단위와 밀리초 단위, ISO 문자열을 모두 받는다
+		const numeric = Number(timestamp);
+		const time = isNaN(numeric) ? Date.parse(timestamp) : numeric < 1e12 ? numeric * 1000 : numeric;
+		if (isNaN(time)) return 'invalid timestamp header';
+		if (Math.abs(Date.now() - time) > tolerance * 1000) return 'timestamp outside the tolerance';
+	}
+
+	if (verification === 'secretToken') {
+		const token = (ctx.getQueryData() as IDataObject).token;
+		return typeof token === 'string' && safeEqual(token, secret)
+			? undefined
+			: 'invalid secret token';
+	}
+
+	const signature = header((options.signatureHeader as string) || 'x-solapi-signature')
+		.trim()
+		.replace(/^sha256=/i, '');
+	if (!signature) return 'missing signature header';
+
+	const req = ctx.getRequestObject();
+	const rawBody = req.rawBody ? req.rawBody.toString('utf8') : JSON.stringify(req.body ?? {});
+	const hmac = createHmac('sha256', secret)
+		.update(tolerance > 0 ? `${timestamp}.${rawBody}` : rawBody)
+		.digest();
+	const valid =
+		safeEqual(signature.toLowerCase(), hmac.toString('hex')) ||
+		safeEqual(signature, hmac.toString('base64'));
+	return valid ? undefined : 'invalid signature';
+}
 
 export class SolapiTrigger implements INodeType {
 	description: INodeTypeDescription = {
@@ -42,7 +179,32 @@ export class SolapiTrigger implements INodeType {
 				options: [
 					{ name: 'On Commerce Action', value: 'commerceAction' },
 					{ name: 'On Group Report', value: 'groupReport' },
+					{
+						name: 'On Inbound Message (MO)',
+						value: 'inboundMessage',
+						description: 'A reply or message sent to one of your numbers',
+					},
+					{
+						name: 'On Kakao Template Inspection Result',
+						value: 'kakaoTemplateInspection',
+						description: 'An AlimTalk template was approved or rejected',
+					},
+					{
+						name: 'On Low Balance',
+						value: 'lowBalance',
+						description: 'The balance fell below the alert threshold set in the Solapi console',
+					},
 					{ name: 'On Message Report (Single)', value: 'messageReport' },
+					{
+						name: 'On Scheduled Group Start',
+						value: 'scheduledGroupStart',
+						description: 'A scheduled message group started sending',
+					},
+					{
+						name: 'On Sender ID Status Change',
+						value: 'senderIdStatus',
+						description: 'A sender number was approved, rejected or expired',
+					},
 				],
 			},
 			{
@@ -55,6 +217,95 @@ export class SolapiTrigger implements INodeType {
 				typeOptions: { loadOptionsMethod: 'getCommerceHooks' },
 				default: '',
 			},
+			...reportFilterFields,
+			{
+				displayName: 'Verification',
+				name: 'verification',
+				type: 'options',
+				options: [
+					{
+						name: 'HMAC Signature Header',
+						value: 'signature',
+						description: 'Check the HMAC-SHA256 signature of the request body sent in a header',
+					},
+					{
+						name: 'None',
+						value: 'none',
+						description: 'Accept every request to the webhook URL',
+					},
+					{
+						name: 'Secret Token in URL',
+						value: 'secretToken',
+						description:
+							'Register the webhook URL with a secret token and reject requests without it',
+					},
+				],
+				default: 'none',
+			},
+			{
+				displayName: 'Webhook Secret',
+				name: 'webhookSecret',
+				type: 'string',
+				typeOptions: { password: true },
+				required: true,
+				displayOptions: { show: { verification: ['secretToken', 'signature'] } },
+				default: '',
+			},
+			{
+				displayName: 'Verification Options',
+				name: 'verificationOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: { show: { verification: ['secretToken', 'signature'] } },
+				default: {},
+				options: [
+					{
+						displayName: 'On Failure',
+						name: 'onFailure',
+						type: 'options',
+						options: [
+							{
+								name: 'Drop',
+								value: 'drop',
+								description: 'Answer 200 without running the workflow',
+							},
+							{
+								name: 'Log and Continue',
+								value: 'log',
+								description: 'Log a warning and run the workflow anyway',
+							},
+							{
+								name: 'Reject',
+								value: 'reject',
+								description: 'Answer 401 without running the workflow',
+							},
+						],
+						default: 'reject',
+					},
+					{
+						displayName: 'Signature Header',
+						name: 'signatureHeader',
+						type: 'string',
+						displayOptions: { show: { '/verification': ['signature'] } },
+						default: 'x-solapi-signature',
+					},
+					{
+						displayName: 'Timestamp Header',
+						name: 'timestampHeader',
+						type: 'string',
+						default: 'x-solapi-timestamp',
+					},
+					{
+						displayName: 'Timestamp Tolerance (Seconds)',
+						name: 'timestampTolerance',
+						type: 'number',
+						description:
+							'Reject requests whose timestamp header is further than this from now. With a signature, the signed content becomes "{timestamp}.{body}". 0 turns the check off.',
+						typeOptions: { minValue: 0 },
+						default: 0,
+					},
+				],
+			},
 		],
 	};
 
@@ -93,110 +344,189 @@ export class SolapiTrigger implements INodeType {
 	webhookMethods = {
 		default: {
 			async checkExists(this: IHookFunctions): Promise<boolean> {
-				const url = this.getNodeWebhookUrl('default');
+				const url = getRegisteredUrl(this);
 				const eventType = this.getNodeParameter('eventType', 'commerceAction') as string;
-				const data = this.getWorkflowStaticData('node') as { webhookId?: string; commerceHookId?: string; webhookUrl?: string };
+				const data = this.getWorkflowStaticData('node') as TriggerStaticData;
 
 				if (eventType === 'commerceAction') {
 					const hookId = this.getNodeParameter('hookId', '') as string;
-					// 캐시된 데이터로 빠르게 확인
-					if (hookId && data.commerceHookId === hookId && data.webhookUrl === url) {
-						return true;
-					}
-					if (!hookId) {
-						return false;
+					// 이전 설정의 Outgoing Webhook이 남아 있으면 create에서 정리한다
+					if (!hookId || data.webhookId) return false;
+
+					let hook: IDataObject;
+					try {
+						hook = (await solapiApiRequest(
+							this,
+							'GET',
+							`/commerce/v1/hooks/${hookId}`,
+						)) as IDataObject;
+					} catch (error) {
+						if (isNotFound(error)) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Commerce hook ${hookId} does not exist`,
+							);
+						}
+						throw error;
 					}
+					if (!getConnectedWebhookUrls(hook).includes(url)) return false;
 
-					return false;
+					data.commerceHookId = hookId;
+					data.webhookUrl = url;
+					return true;
 				}
-				const eventId = eventType === 'messageReport' ? 'SINGLE-REPORT' : 'GROUP-REPORT';
-				if (data.webhookId && data.webhookUrl === url) return true;
-				try {
-					const res = (await solapiApiRequest(
-						this,
-						'GET',
-						'/webhook/v1/outgoing',
-						undefined,
-						{ limit: 200 },
-					)) as { list?: Array<{ webhookId?: string; url?: string; eventId?: string }> } | Array<any>;
-					const arr = Array.isArray(res) ? (res as any[]) : (((res as any)?.list as any[]) || (res as any)?.webhookList || []);
-					const found = (arr as any[]).find((w: any) => (w?.url === url) && (!w?.eventId || w?.eventId === eventId));
-					if (found?.webhookId) {
-						data.webhookId = found.webhookId;
-						data.webhookUrl = url;
-						return true;
-					}
-				} catch {}
-				return false;
+
+				if (data.commerceHookId) return false;
+				const eventId = OUTGOING_EVENT_IDS[eventType];
+				const own = (await listOutgoingWebhooks(this)).filter((w) => isOwnWebhook(this, w));
+				const found = own.find((w) => w.url === url && w.eventId === eventId);
+				// 같은 노드가 남긴 다른 등록이 있으면 create에서 정리하도록 false를 돌려준다
+				if (!found?.webhookId || own.length > 1) return false;
+
+				data.webhookId = found.webhookId as string;
+				data.webhookUrl = url;
+				return true;
 			},
 			async create(this: IHookFunctions): Promise<boolean> {
-				const url = this.getNodeWebhookUrl('default');
+				const url = getRegisteredUrl(this);
 				const isTemporary = this.getMode && this.getMode() === 'manual';
 				const eventType = this.getNodeParameter('eventType', 'commerceAction') as string;
+				const data = this.getWorkflowStaticData('node') as TriggerStaticData;
 
 				try {
+					const webhooks = await listOutgoingWebhooks(this);
+					// 이전 등록은 URL이 바뀌었어도 저장해 둔 ID로 찾는다
+					const previous = webhooks.find((w) => data.webhookId && w.webhookId === data.webhookId);
+					const own = webhooks.filter((w) => w === previous || isOwnWebhook(this, w));
+
 					if (eventType === 'commerceAction') {
 						const hookId = this.getNodeParameter('hookId', '') as string;
+						if (data.commerceHookId && data.commerceHookId !== hookId) {
+							await disconnectCommerceHook(this, data.commerceHookId);
+						}
+						for (const webhook of own) {
+							await deleteOutgoingWebhook(this, webhook.webhookId as string);
+						}
+						delete data.webhookId;
+
 						await solapiApiRequest(
 							this,
 							'POST',
 							`/commerce/v1/hooks/${hookId}/connect-webhook`,
 							{ name: 'n8n', webhookUrl: url, isTemporary },
 						);
-						const data = this.getWorkflowStaticData('node') as { commerceHookId?: string; webhookUrl?: string };
 						data.commerceHookId = hookId;
 						data.webhookUrl = url;
 						return true;
 					}
-					const eventId = eventType === 'messageReport' ? 'SINGLE-REPORT' : 'GROUP-REPORT';
+
+					if (data.commerceHookId) {
+						await disconnectCommerceHook(this, data.commerceHookId);
+						delete data.commerceHookId;
+					}
+
+					const eventId = OUTGOING_EVENT_IDS[eventType];
+					const [current, ...orphans] = previous
+						? [previous, ...own.filter((w) => w !== previous)]
+						: own;
+					for (const webhook of orphans) {
+						await deleteOutgoingWebhook(this, webhook.webhookId as string);
+					}
+
+					// 남아 있는 등록은 새로 만들지 않고 URL과 이벤트만 바꾼다
 					const response = (await solapiApiRequest(
 						this,
-						'POST',
-						'/webhook/v1/outgoing',
+						current ? 'PUT' : 'POST',
+						current ? `/webhook/v1/outgoing/${current.webhookId}` : '/webhook/v1/outgoing',
 						{ eventId, url, name: 'n8n', isTemporary },
-					)) as { webhookId?: string };
-					const data = this.getWorkflowStaticData('node') as { webhookId?: string; webhookUrl?: string };
-					data.webhookId = (response as any).webhookId || '';
+					)) as IDataObject | undefined;
+					const webhookId = (current?.webhookId || response?.webhookId) as string | undefined;
+					if (!webhookId) {
+						throw new NodeOperationError(this.getNode(), 'Solapi did not return a webhook ID');
+					}
+
+					data.webhookId = webhookId;
 					data.webhookUrl = url;
 					return true;
 				} catch (e) {
+					if (e instanceof NodeOperationError) throw e;
 					throw new NodeOperationError(this.getNode(), `Failed to create Solapi webhook: ${(e as any)?.message || 'unknown error'}`);
 				}
 			},
 			async delete(this: IHookFunctions): Promise<boolean> {
-				const data = this.getWorkflowStaticData('node') as { webhookId?: string; commerceHookId?: string };
-				if (data.commerceHookId) {
-					try {
-						await solapiApiRequest(
-							this,
-							'POST',
-							`/commerce/v1/hooks/${data.commerceHookId}/disconnect-webhook`,
-						);
-					} catch {}
-				}
-				if (data.webhookId) {
-					try {
-						await solapiApiRequest(
-							this,
-							'DELETE',
-							`/webhook/v1/outgoing/${data.webhookId}`,
-						);
-					} catch {}
+				const data = this.getWorkflowStaticData('node') as TriggerStaticData;
+
+				try {
+					if (data.commerceHookId) {
+						await disconnectCommerceHook(this, data.commerceHookId);
+						delete data.commerceHookId;
+					}
+					if (data.webhookId) {
+						await deleteOutgoingWebhook(this, data.webhookId);
+						delete data.webhookId;
+					}
+				} catch (e) {
+					throw new NodeOperationError(
+						this.getNode(),
+						`Failed to delete Solapi webhook: ${(e as any)?.message || 'unknown error'}`,
+					);
 				}
+				delete data.webhookUrl;
 				return true;
 			},
 		},
 	};
 
 	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+		const failure = getVerificationFailure(this);
+		if (failure) {
+			const options = this.getNodeParameter('verificationOptions', {}) as IDataObject;
+			const onFailure = (options.onFailure as string) || 'reject';
+			if (onFailure === 'reject') {
+				this.getResponseObject().status(401).json({ message: 'Unauthorized' });
+				return { noWebhookResponse: true };
+			}
+			if (onFailure === 'drop') return { webhookResponse: 'OK' };
+			this.logger.warn(`Solapi Trigger received an unverified request: ${failure}`);
+		}
+
 		const req = this.getRequestObject();
 		const body = req.body as unknown;
-		const items: Array<{ json: Record<string, any> }> = [];
+		let items: Array<{ json: Record<string, any> }> = [];
 		if (Array.isArray(body)) {
 			for (const entry of body) items.push({ json: (entry as any) as Record<string, any> });
 		} else if (body && typeof body === 'object') {
 			items.push({ json: (body as any) as Record<string, any> });
 		}
+
+		const eventType = this.getNodeParameter('eventType', 'commerceAction') as string;
+		if (eventType === 'messageReport' || eventType === 'groupReport') {
+			const filters = this.getNodeParameter('filters', {}) as IDataObject;
+			const simplify = this.getNodeParameter('simplify', false) as boolean;
+			if (eventType === 'groupReport' && (simplify || Object.keys(filters).length > 0)) {
+				// 메시지 목록이 없는 그룹 리포트는 그룹의 메시지를 조회해 붙인다
+				for (const item of items) {
+					const groupId = item.json.groupId ?? item.json.groupInfo?.groupId;
+					if (!groupId || simplifyReports(item.json).some((report) => report.messageId)) continue;
+					item.json.messageList = await solapiApiRequestAllItems(
+						this,
+						'messageList',
+						'/messages/v4/list',
+						{ groupId },
+					);
+				}
+			}
+			// 필터는 메시지 단위로 보고, 그룹 리포트는 걸러진 메시지가 하나라도 남을 때만 통과시킨다
+			items = items.flatMap((item) => {
+				const reports = simplifyReports(item.json).filter((report) =>
+					matchesReportFilters(report, filters),
+				);
+				if (simplify) return reports.map((json) => ({ json }));
+				return reports.length > 0 ? [item] : [];
+			});
+			if (items.length === 0) return { webhookResponse: 'OK' };
+		}
+
 		return { workflowData: [items] };
 	}
 }
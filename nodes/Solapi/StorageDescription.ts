@@ -0,0 +1,184 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+import { kakaoBrandMessageUploadTypes } from './KakaoBrandMessageDescription';
+
+export const storageOperations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['storage'],
+			},
+		},
+		default: 'upload',
+		options: [
+			{
+				name: 'Delete',
+				value: 'delete',
+				description: 'Delete an uploaded file',
+				action: 'Delete a file',
+			},
+			{
+				name: 'Get',
+				value: 'get',
+				description: 'Get an uploaded file',
+				action: 'Get a file',
+			},
+			{
+				name: 'Get Many',
+				value: 'getAll',
+				description: 'Get many uploaded files',
+				action: 'Get many files',
+			},
+			{
+				name: 'Upload',
+				value: 'upload',
+				description: 'Upload a file from binary data or a URL',
+				action: 'Upload a file',
+			},
+		],
+	},
+];
+
+export const storageFields: INodeProperties[] = [
+	{
+		displayName: 'File ID',
+		name: 'fileId',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: { resource: ['storage'], operation: ['delete', 'get'] },
+		},
+		default: '',
+	},
+	// Upload
+	{
+		displayName: 'File Type',
+		name: 'fileType',
+		type: 'options',
+		description: 'What the file will be used for',
+		displayOptions: {
+			show: { resource: ['storage'], operation: ['upload'] },
+		},
+		options: [
+			...kakaoBrandMessageUploadTypes,
+			{ name: 'Document (Fax)', value: 'DOCUMENT' },
+			{ name: 'Kakao Image', value: 'KAKAO' },
+			{ name: 'MMS Image', value: 'MMS' },
+			{ name: 'RCS Image', value: 'RCS' },
+		],
+		default: 'MMS',
+	},
+	{
+		displayName: 'Source',
+		name: 'source',
+		type: 'options',
+		displayOptions: {
+			show: { resource: ['storage'], operation: ['upload'] },
+		},
+		options: [
+			{ name: 'Binary Data', value: 'binary' },
+			{ name: 'URL', value: 'url' },
+		],
+		default: 'binary',
+	},
+	{
+		displayName: 'Input Binary Field',
+		name: 'binaryPropertyName',
+		type: 'string',
+		required: true,
+		description: 'Name of the input binary field holding the file',
+		displayOptions: {
+			show: { resource: ['storage'], operation: ['upload'], source: ['binary'] },
+		},
+		default: 'data',
+	},
+	{
+		displayName: 'File URL',
+		name: 'fileUrl',
+		type: 'string',
+		required: true,
+		placeholder: 'https://example.com/coupon.jpg',
+		displayOptions: {
+			show: { resource: ['storage'], operation: ['upload'], source: ['url'] },
+		},
+		default: '',
+	},
+	{
+		displayName: 'Options',
+		name: 'uploadOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		displayOptions: {
+			show: { resource: ['storage'], operation: ['upload'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'File Name',
+				name: 'fileName',
+				type: 'string',
+				description: 'Name stored in Solapi. Defaults to the name of the source file.',
+				default: '',
+			},
+			{
+				displayName: 'Link',
+				name: 'link',
+				type: 'string',
+				placeholder: 'https://example.com',
+				description: 'URL opened when the Kakao image is tapped',
+				default: '',
+			},
+		],
+	},
+	// Get Many
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		description: 'Whether to return all results or only up to a given limit',
+		displayOptions: {
+			show: { resource: ['storage'], operation: ['getAll'] },
+		},
+		default: false,
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		description: 'Max number of results to return',
+		typeOptions: { minValue: 1 },
+		displayOptions: {
+			show: { resource: ['storage'], operation: ['getAll'], returnAll: [false] },
+		},
+		default: 50,
+	},
+	{
+		displayName: 'Filters',
+		name: 'filters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		displayOptions: {
+			show: { resource: ['storage'], operation: ['getAll'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'File Type',
+				name: 'type',
+				type: 'options',
+				options: [
+					...kakaoBrandMessageUploadTypes,
+					{ name: 'Document (Fax)', value: 'DOCUMENT' },
+					{ name: 'Kakao Image', value: 'KAKAO' },
+					{ name: 'MMS Image', value: 'MMS' },
+					{ name: 'RCS Image', value: 'RCS' },
+				],
+				default: 'MMS',
+			},
+		],
+	},
+];
@@ -0,0 +1,64 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+export const VOICE_MAX_REPLY_RANGE = 9;
+
+export const voiceFields: INodeProperties[] = [
+	{
+		displayName: 'Voice Type',
+		name: 'voiceType',
+		type: 'options',
+		description: 'Voice used to read the text',
+		displayOptions: {
+			show: { operation: ['sendVoice'], resource: ['message'] },
+		},
+		options: [
+			{ name: 'Female', value: 'FEMALE' },
+			{ name: 'Male', value: 'MALE' },
+		],
+		default: 'FEMALE',
+	},
+	{
+		displayName: 'Voice Options',
+		name: 'voiceOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		displayOptions: {
+			show: { operation: ['sendVoice'], resource: ['message'] },
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Counselor Number',
+				name: 'counselorNumber',
+				type: 'string',
+				placeholder: '0212345678',
+				description:
+					'Number the call is transferred to when the recipient presses 0. Cannot be combined with Reply Range.',
+				default: '',
+			},
+			{
+				displayName: 'Header Message',
+				name: 'headerMessage',
+				type: 'string',
+				description: 'Message read before the text',
+				default: '',
+			},
+			{
+				displayName: 'Reply Range',
+				name: 'replyRange',
+				type: 'number',
+				description:
+					'Let the recipient answer by pressing 1 up to this number. The pressed key is reported with the delivery result. Requires a Tail Message.',
+				typeOptions: { minValue: 1, maxValue: VOICE_MAX_REPLY_RANGE },
+				default: 1,
+			},
+			{
+				displayName: 'Tail Message',
+				name: 'tailMessage',
+				type: 'string',
+				description: 'Message read after the text, e.g. instructions for the reply keys',
+				default: '',
+			},
+		],
+	},
+];